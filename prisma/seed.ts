@@ -1,4 +1,5 @@
 import { PrismaClient } from "@prisma/client";
+import { randomBytes, scryptSync } from "crypto";
 import { addDays, setHours, startOfHour } from "date-fns";
 
 const prisma = new PrismaClient();
@@ -13,6 +14,30 @@ interface UnitType {
   unitNumberAvailable: boolean;
 }
 
+const ports = [
+  {
+    id: "DKCPH",
+    name: "Copenhagen",
+    country: "Denmark",
+    timezone: "Europe/Copenhagen",
+    latitude: 55.6867,
+    longitude: 12.5997,
+  },
+  {
+    id: "NOOSL",
+    name: "Oslo",
+    country: "Norway",
+    timezone: "Europe/Oslo",
+    latitude: 59.9076,
+    longitude: 10.7391,
+  },
+];
+
+const unitGroups = [
+  { id: "FLA", name: "Flats" },
+  { id: "CON", name: "Containers" },
+];
+
 const unitTypes: UnitType[] = [
   {
     id: "20FL",
@@ -165,19 +190,48 @@ function getUniqueRandomUnitTypes(count: number): UnitType[] {
   return selectedUnitTypes;
 }
 
+// Same `salt:hash` format as `hashPassword` in src/server/password.ts.
+function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  return `${salt}:${scryptSync(password, salt, 64).toString("hex")}`;
+}
+
+// One user per role, all with the password "password", to sign in locally.
+const users = [
+  { email: "admin@dfds.com", name: "Admin", role: "admin" },
+  { email: "planner@dfds.com", name: "Planner", role: "planner" },
+  { email: "viewer@dfds.com", name: "Viewer", role: "viewer" },
+];
+
 async function main() {
+  for (const user of users) {
+    await prisma.user.create({
+      data: { ...user, passwordHash: hashPassword("password") },
+    });
+  }
+
   const crownSeaways = await prisma.vessel.create({
     data: {
       name: "Crown Seaways",
+      laneMeterCapacity: 1370,
     },
   });
 
   const pearlSeaways = await prisma.vessel.create({
     data: {
       name: "Pearl Seaways",
+      laneMeterCapacity: 1482,
     },
   });
 
+  for (const port of ports) {
+    await prisma.port.create({ data: port });
+  }
+
+  for (const unitGroup of unitGroups) {
+    await prisma.unitGroup.create({ data: unitGroup });
+  }
+
   // Seeding units based on the predefined unitTypes array
   for (let i = 0; i < unitTypes.length; i++) {
     const unitType = unitTypes[i % unitTypes.length]; // Loop back to start if i >= unitTypes.length
@@ -188,6 +242,10 @@ async function main() {
           id: unitType.id,
           name: unitType.name,
           defaultLength: unitType.length, // Using 'length' as default length
+          allowDrivers: unitType.allowDrivers,
+          unitGroupId: unitType.unitGroupId,
+          mandatoryField: unitType.mandatoryField,
+          unitNumberAvailable: unitType.unitNumberAvailable,
         },
       }));
   }
@@ -210,8 +268,8 @@ async function main() {
 
     await prisma.voyage.create({
       data: {
-        portOfLoading: "Copenhagen",
-        portOfDischarge: "Oslo",
+        portOfLoadingId: "DKCPH",
+        portOfDischargeId: "NOOSL",
         vesselId: departingFromCopenhagenVessel,
         scheduledDeparture,
         scheduledArrival,
@@ -224,8 +282,8 @@ async function main() {
 
     await prisma.voyage.create({
       data: {
-        portOfLoading: "Oslo",
-        portOfDischarge: "Copenhagen",
+        portOfLoadingId: "NOOSL",
+        portOfDischargeId: "DKCPH",
         vesselId: departingFromOsloVessel,
         scheduledDeparture,
         scheduledArrival,
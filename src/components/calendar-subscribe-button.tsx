@@ -0,0 +1,60 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "~/components/ui/button";
+import { useToast } from "~/components/ui/use-toast";
+import { toQueryString } from "~/utils";
+import type { CreatedApiKey } from "~/pages/api/apiKey/create";
+
+type Props = {
+  params: Record<string, string | undefined>;
+  title: string;
+};
+
+/**
+ * Copies the link of the calendar feed with the given filters. The feed needs
+ * a key in its URL, and keys cannot be read back, so a new one is issued for
+ * every link and replaces the previous one.
+ */
+export default function CalendarSubscribeButton({ params, title }: Props) {
+  const { toast } = useToast();
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/apiKey/calendar", {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not subscribe to calendar.",
+          description: `A problem occured while attempting to create a calendar key.`,
+        });
+        throw new Error("Failed to create the calendar key");
+      }
+
+      const { key } = (await response.json()) as CreatedApiKey;
+
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/api/voyage/calendar.ics?${toQueryString({ ...params, key })}`,
+      );
+    },
+    onSuccess: () => {
+      toast({
+        variant: "default",
+        description:
+          "Calendar link succesfully copied. Paste it into your calendar app to subscribe. Links copied before no longer work.",
+      });
+    },
+  });
+
+  return (
+    <Button
+      variant="outline"
+      title={title}
+      disabled={subscribeMutation.isPending}
+      onClick={() => subscribeMutation.mutate()}
+    >
+      Subscribe
+    </Button>
+  );
+}
@@ -1,23 +1,76 @@
 import Image from "next/image";
+import Link from "next/link";
 import type { ReactNode } from "react";
+import { signOut, useSession } from "next-auth/react";
 import { ThemeProvider as NextThemesProvider } from "next-themes";
 import { Toaster } from "~/components/ui/toaster"
+import { type Role, hasRole } from "~/schemas/user";
 
 type Props = {
   children: ReactNode;
+  /** Role needed to see the page; others get a notice instead. */
+  role?: Role;
 };
 
-export default function Layout({ children }: Props) {
+const navigation: { href: string; label: string; role?: Role }[] = [
+  { href: "/", label: "Voyages" },
+  { href: "/vessels", label: "Vessels" },
+  { href: "/unit-types", label: "Unit Types" },
+  { href: "/schedules", label: "Schedules", role: "planner" },
+  { href: "/import", label: "Import", role: "planner" },
+  { href: "/performance", label: "Performance" },
+  { href: "/api-keys", label: "API Keys", role: "admin" },
+];
+
+export default function Layout({ children, role }: Props) {
+  // Sends visitors who are not signed in to the sign-in page.
+  const { data: session } = useSession({ required: true });
+
   return (
     <>
       <nav className="flex w-full items-center justify-center border-b border-white border-opacity-50 bg-gray-800 py-4">
         <div className="flex w-full max-w-screen-xl items-center px-4">
-          <Image src="/logo.svg" alt="DFDS logo" width={56} height={18} />
+          <Link href="/">
+            <Image src="/logo.svg" alt="DFDS logo" width={56} height={18} />
+          </Link>
+          <div className="ml-8 flex gap-6 text-sm text-white">
+            {navigation
+              .filter(({ role }) => !role || hasRole(session?.user.role, role))
+              .map(({ href, label }) => (
+                <Link key={href} href={href} className="hover:underline">
+                  {label}
+                </Link>
+              ))}
+          </div>
+          {session && (
+            <div className="ml-auto flex items-center gap-4 text-sm text-white">
+              <span>
+                {session.user.name}{" "}
+                <span className="text-white text-opacity-60">
+                  ({session.user.role})
+                </span>
+              </span>
+              <button
+                type="button"
+                className="hover:underline"
+                onClick={() => void signOut({ callbackUrl: "/signin" })}
+              >
+                Sign out
+              </button>
+            </div>
+          )}
         </div>
       </nav>
       <main className="mx-auto flex w-full max-w-screen-xl items-center justify-center px-2">
         <NextThemesProvider attribute="class" defaultTheme="dark" enableSystem>
-          {children}
+          {session &&
+            (!role || hasRole(session.user.role, role) ? (
+              children
+            ) : (
+              <p className="py-6 text-sm text-muted-foreground">
+                You are not allowed to see this page.
+              </p>
+            ))}
         </NextThemesProvider>
         <Toaster />
       </main>
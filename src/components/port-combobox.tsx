@@ -0,0 +1,106 @@
+import { type ButtonHTMLAttributes, forwardRef, useState } from "react";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import type { Ports } from "~/pages/api/port/getAll";
+import { cn } from "~/utils";
+
+type Props = Omit<
+  ButtonHTMLAttributes<HTMLButtonElement>,
+  "value" | "onChange"
+> & {
+  ports: Ports | undefined;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  /** Port that cannot be picked, e.g. the port already chosen on the other end of the voyage. */
+  excludePortId?: string;
+  placeholder?: string;
+};
+
+const PortCombobox = forwardRef<HTMLButtonElement, Props>(
+  (
+    {
+      ports,
+      value,
+      onChange,
+      excludePortId,
+      placeholder = "Select a Port",
+      className,
+      ...props
+    },
+    ref,
+  ) => {
+    const [open, setOpen] = useState(false);
+    const [search, setSearch] = useState("");
+
+    const selected = ports?.find((port) => port.id === value);
+    const term = search.trim().toLowerCase();
+    const matches = ports?.filter((port) =>
+      [port.id, port.name, port.country].some((text) =>
+        text.toLowerCase().includes(term),
+      ),
+    );
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            {...props}
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn(
+              "w-full justify-start font-normal",
+              !selected && "text-muted-foreground",
+              className,
+            )}
+          >
+            {selected ? `${selected.name} (${selected.id})` : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-2">
+          <Input
+            placeholder="Search by name, country or UN/LOCODE"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+          <ul className="mt-2 max-h-60 overflow-auto">
+            {matches?.length === 0 && (
+              <li className="px-2 py-1.5 text-sm text-muted-foreground">
+                No ports found.
+              </li>
+            )}
+            {matches?.map((port) => (
+              <li key={port.id}>
+                <button
+                  type="button"
+                  disabled={port.id === excludePortId}
+                  className={cn(
+                    "w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent disabled:cursor-not-allowed disabled:opacity-50",
+                    port.id === value && "bg-accent",
+                  )}
+                  onClick={() => {
+                    onChange(port.id);
+                    setSearch("");
+                    setOpen(false);
+                  }}
+                >
+                  {port.name}, {port.country}{" "}
+                  <span className="text-muted-foreground">{port.id}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </PopoverContent>
+      </Popover>
+    );
+  },
+);
+PortCombobox.displayName = "PortCombobox";
+
+export default PortCombobox;
@@ -0,0 +1,77 @@
+import { type ButtonHTMLAttributes, forwardRef } from "react";
+import { format } from "date-fns";
+import { formatInTimeZone, fromZonedTime, toZonedTime } from "date-fns-tz";
+import { Button } from "~/components/ui/button";
+import { Calendar } from "~/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import { TimePicker } from "~/components/ui/time-picker";
+import { cn } from "~/utils";
+
+type Props = Omit<
+  ButtonHTMLAttributes<HTMLButtonElement>,
+  "value" | "onChange"
+> & {
+  value: Date | undefined;
+  onChange: (value: Date | undefined) => void;
+  /** IANA timezone of the port. The browser's zone is used until a port is picked. */
+  timeZone: string | undefined;
+};
+
+/**
+ * Date and time picker that shows and enters times in the local time of a
+ * port, while `value` stays the actual point in time.
+ */
+const PortDateTimePicker = forwardRef<HTMLButtonElement, Props>(
+  ({ value, onChange, timeZone, className, ...props }, ref) => {
+    // The pickers work in the browser's zone, so they get a date whose local
+    // fields are the port's wall clock time.
+    const zoned = value && timeZone ? toZonedTime(value, timeZone) : value;
+    const setZoned = (date: Date | undefined) =>
+      onChange(date && timeZone ? fromZonedTime(date, timeZone) : date);
+
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            {...props}
+            variant="outline"
+            className={cn(
+              "w-[280px] justify-start text-left font-normal",
+              !value && "text-muted-foreground",
+              className,
+            )}
+          >
+            {value ? (
+              timeZone ? (
+                formatInTimeZone(value, timeZone, "PPP HH:mm 'UTC'xxx")
+              ) : (
+                format(value, "PPP HH:mm")
+              )
+            ) : (
+              <span>Pick a date</span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0">
+          <Calendar
+            mode="single"
+            selected={zoned}
+            onSelect={setZoned}
+            initialFocus
+          />
+          <div className="border-t border-border p-3">
+            <TimePicker setDate={setZoned} date={zoned} />
+          </div>
+        </PopoverContent>
+      </Popover>
+    );
+  },
+);
+PortDateTimePicker.displayName = "PortDateTimePicker";
+
+export default PortDateTimePicker;
@@ -0,0 +1,72 @@
+import { Checkbox } from "~/components/ui/checkbox";
+import { Label } from "~/components/ui/label";
+import type { UnitGroups } from "~/pages/api/unitGroup/getAll";
+
+type Props = {
+  unitGroups: UnitGroups | undefined;
+  value: string[];
+  onChange: (value: string[]) => void;
+};
+
+export default function UnitTypePicker({ unitGroups, value, onChange }: Props) {
+  const toggle = (ids: string[], checked: boolean) =>
+    onChange(
+      checked
+        ? [...new Set([...value, ...ids])]
+        : value.filter((id) => !ids.includes(id)),
+    );
+
+  return (
+    <div className="space-y-4">
+      {unitGroups?.map((unitGroup) => {
+        const ids = unitGroup.unitTypes.map(({ id }) => id);
+        const selectedCount = ids.filter((id) => value.includes(id)).length;
+
+        return (
+          <div key={unitGroup.id} className="rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id={`unit-group-${unitGroup.id}`}
+                  checked={
+                    selectedCount === 0
+                      ? false
+                      : selectedCount === ids.length
+                        ? true
+                        : "indeterminate"
+                  }
+                  onCheckedChange={(checked) => toggle(ids, checked === true)}
+                />
+                <Label htmlFor={`unit-group-${unitGroup.id}`}>
+                  {unitGroup.name}
+                </Label>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {selectedCount}/{ids.length} selected
+              </span>
+            </div>
+            <div className="mt-2 grid grid-cols-2 gap-2 pl-7">
+              {unitGroup.unitTypes.map((unitType) => (
+                <div key={unitType.id} className="flex items-center space-x-3">
+                  <Checkbox
+                    id={`unit-type-${unitType.id}`}
+                    checked={value.includes(unitType.id)}
+                    onCheckedChange={(checked) =>
+                      toggle([unitType.id], checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor={`unit-type-${unitType.id}`}
+                    className="font-normal"
+                  >
+                    {unitType.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
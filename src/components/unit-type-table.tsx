@@ -0,0 +1,42 @@
+import type { UnitType } from "@prisma/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+
+type Props = {
+  unitTypes: UnitType[];
+};
+
+export default function UnitTypeTable({ unitTypes }: Props) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Default length</TableHead>
+          <TableHead>Group</TableHead>
+          <TableHead>Drivers</TableHead>
+          <TableHead>Unit number</TableHead>
+          <TableHead>Mandatory field</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {unitTypes.map((unitType) => (
+          <TableRow key={unitType.id}>
+            <TableCell>{unitType.name}</TableCell>
+            <TableCell align="right">{unitType.defaultLength}</TableCell>
+            <TableCell>{unitType.unitGroupId}</TableCell>
+            <TableCell>{unitType.allowDrivers ? "Yes" : "No"}</TableCell>
+            <TableCell>{unitType.unitNumberAvailable ? "Yes" : "No"}</TableCell>
+            <TableCell>{unitType.mandatoryField ?? "-"}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
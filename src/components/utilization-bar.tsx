@@ -0,0 +1,31 @@
+import type { Utilization } from "~/server/voyage";
+import { cn } from "~/utils";
+
+type Props = {
+  utilization: Utilization;
+};
+
+export default function UtilizationBar({ utilization }: Props) {
+  const { bookedLaneMeters, capacityLaneMeters, ratio, warning } = utilization;
+
+  if (ratio === null) {
+    return <span className="text-muted-foreground">No capacity</span>;
+  }
+
+  return (
+    <div
+      className="flex items-center gap-2"
+      title={`${bookedLaneMeters.toFixed(1)} of ${capacityLaneMeters} lane meters booked`}
+    >
+      <div className="h-2 w-20 overflow-hidden rounded-full bg-secondary">
+        <div
+          className={cn("h-full", warning ? "bg-destructive" : "bg-primary")}
+          style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+        />
+      </div>
+      <span className={cn("tabular-nums", warning && "text-destructive")}>
+        {Math.round(ratio * 100)}%
+      </span>
+    </div>
+  );
+}
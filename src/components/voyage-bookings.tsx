@@ -0,0 +1,293 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { UnitType } from "@prisma/client";
+import { format } from "date-fns";
+import { useForm } from "react-hook-form";
+import { Button } from "~/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { Input } from "~/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { TABLE_DATE_FORMAT } from "~/constants";
+import type { Bookings } from "~/pages/api/booking/getAll";
+import type { ErrorBody } from "~/schemas/api";
+import { type BookingValues, bookingSchema } from "~/schemas/booking";
+import { hasDeparted, isOpenForBooking } from "~/schemas/voyage";
+import { applyApiError, cn, fetchData } from "~/utils";
+
+type Props = {
+  voyageId: string;
+  /**
+   * Bookings can only be added while the voyage is open for booking, and no
+   * longer be cancelled once it has departed.
+   */
+  status: string;
+  unitTypes: UnitType[];
+  /** Lists the bookings without the controls to add or cancel them. */
+  readOnly?: boolean;
+};
+
+export default function VoyageBookings({
+  voyageId,
+  status,
+  unitTypes,
+  readOnly = false,
+}: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const emptyBooking: BookingValues = {
+    voyageId,
+    unitTypeId: "",
+    quantity: 1,
+    unitNumber: "",
+    customerReference: "",
+  };
+
+  const bookingForm = useForm<BookingValues>({
+    resolver: zodResolver(bookingSchema),
+    defaultValues: emptyBooking,
+  });
+
+  const { data: bookings } = useQuery<Bookings>({
+    queryKey: ["bookings", voyageId],
+    queryFn: () => fetchData(`booking/getAll?voyageId=${voyageId}`),
+  });
+
+  const invalidate = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["bookings", voyageId] });
+    await queryClient.invalidateQueries({ queryKey: ["voyages"] });
+  };
+
+  const createBookingMutation = useMutation({
+    mutationFn: async (bookingData: BookingValues) => {
+      const response = await fetch(`/api/booking/create`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(bookingData),
+      });
+
+      if (response.status === 400) {
+        await applyApiError(
+          response,
+          bookingForm,
+          "Error: Could not create booking.",
+        );
+
+        throw new Error("Booking failed server validation");
+      } else if (response.status === 409) {
+        const { message } = (await response.json()) as ErrorBody;
+        toast({
+          variant: "destructive",
+          title: "Error: Could not create booking.",
+          description: message,
+        });
+        throw new Error("Voyage is not open for booking");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not create booking.",
+          description: `A problem occured while attempting to create booking.`,
+        });
+        throw new Error("Failed to create the booking");
+      } else {
+        toast({
+          variant: "default",
+          description: `Booking succesfully created.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      bookingForm.reset(emptyBooking);
+      await invalidate();
+    },
+  });
+
+  const cancelBookingMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      const response = await fetch(`/api/booking/cancel?id=${bookingId}`, {
+        method: "POST",
+      });
+
+      if (response.status === 409) {
+        const { message } = (await response.json()) as ErrorBody;
+        toast({
+          variant: "destructive",
+          title: "Error: Could not cancel booking.",
+          description: message,
+        });
+        throw new Error("Booking cannot be cancelled");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not cancel booking.",
+          description: `A problem occured while attempting to cancel booking (id: ${bookingId}).`,
+        });
+        throw new Error("Failed to cancel the booking");
+      } else {
+        toast({
+          variant: "default",
+          description: `Booking succesfully cancelled.`,
+        });
+      }
+    },
+    onSuccess: invalidate,
+  });
+
+  function onSubmit(values: BookingValues) {
+    createBookingMutation.mutate(values);
+  }
+
+  return (
+    <div className="space-y-6">
+      {!readOnly && !isOpenForBooking(status) && (
+        <p className="text-sm text-muted-foreground">
+          Bookings can only be added while the voyage is open for booking.
+        </p>
+      )}
+      {!readOnly && isOpenForBooking(status) && (
+        <Form {...bookingForm}>
+          <form
+            className="flex flex-wrap items-start gap-4"
+            onSubmit={(event) => void bookingForm.handleSubmit(onSubmit)(event)}
+          >
+            <FormField
+              control={bookingForm.control}
+              name="unitTypeId"
+              render={({ field }) => (
+                <FormItem className="w-48">
+                  <FormLabel>Unit type</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a Unit Type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {unitTypes.map((unitType) => (
+                        <SelectItem key={unitType.id} value={unitType.id}>
+                          {unitType.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={bookingForm.control}
+              name="quantity"
+              render={({ field }) => (
+                <FormItem className="w-24">
+                  <FormLabel>Quantity</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={bookingForm.control}
+              name="unitNumber"
+              render={({ field }) => (
+                <FormItem className="w-40">
+                  <FormLabel>Unit number</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={bookingForm.control}
+              name="customerReference"
+              render={({ field }) => (
+                <FormItem className="w-48">
+                  <FormLabel>Customer reference</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="mt-8">
+              Add Booking
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Booked</TableHead>
+            <TableHead>Unit type</TableHead>
+            <TableHead>Quantity</TableHead>
+            <TableHead>Unit number</TableHead>
+            <TableHead>Customer reference</TableHead>
+            <TableHead>Lane meters</TableHead>
+            <TableHead>&nbsp;</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {bookings?.map((booking) => (
+            <TableRow
+              key={booking.id}
+              className={cn(
+                booking.cancelledAt && "text-muted-foreground line-through",
+              )}
+            >
+              <TableCell>
+                {format(new Date(booking.createdAt), TABLE_DATE_FORMAT)}
+              </TableCell>
+              <TableCell>{booking.unitType.name}</TableCell>
+              <TableCell>{booking.quantity}</TableCell>
+              <TableCell>{booking.unitNumber ?? "-"}</TableCell>
+              <TableCell>{booking.customerReference ?? "-"}</TableCell>
+              <TableCell align="right">
+                {(booking.quantity * booking.unitType.defaultLength).toFixed(1)}
+              </TableCell>
+              <TableCell>
+                {!readOnly && !booking.cancelledAt && !hasDeparted(status) && (
+                  <Button
+                    variant="destructive"
+                    onClick={() => cancelBookingMutation.mutate(booking.id)}
+                  >
+                    Cancel
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
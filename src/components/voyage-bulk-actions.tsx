@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { useToast } from "~/components/ui/use-toast";
+import type { UnitTypes } from "~/pages/api/unitType/getAll";
+import type { VesselsType } from "~/pages/api/vessel/getAll";
+import type { BulkResultBody } from "~/pages/api/voyage/bulk";
+import type { VoyageBulkAction } from "~/schemas/voyage";
+
+type Props = {
+  selectedIds: string[];
+  vessels: VesselsType | undefined;
+  unitTypes: UnitTypes | undefined;
+  onDone: () => void;
+};
+
+export default function VoyageBulkActions({
+  selectedIds,
+  vessels,
+  unitTypes,
+  onDone,
+}: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [vessel, setVessel] = useState("");
+  const [hours, setHours] = useState("");
+  const [unitType, setUnitType] = useState("");
+
+  const bulkMutation = useMutation({
+    mutationFn: async (action: VoyageBulkAction) => {
+      const response = await fetch(`/api/voyage/bulk`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ids: selectedIds, action }),
+      });
+
+      if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not change voyages.",
+          description: `A problem occured while attempting to change ${selectedIds.length} voyages.`,
+        });
+        throw new Error("Failed to apply the bulk action");
+      }
+
+      const { results } = (await response.json()) as BulkResultBody;
+      const failures = results.flatMap((result) =>
+        result.success ? [] : [result.message],
+      );
+      const failureCounts = [...new Set(failures)].map(
+        (message) =>
+          `${failures.filter((failure) => failure === message).length} × ${message}`,
+      );
+
+      toast({
+        variant: failures.length ? "destructive" : "default",
+        title: `${results.length - failures.length} of ${results.length} voyages succesfully changed.`,
+        description: failureCounts.join(" "),
+      });
+    },
+    onSuccess: async () => {
+      onDone();
+      await queryClient.invalidateQueries({ queryKey: ["voyages"] });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm">
+      <span className="mr-2 font-medium">{selectedIds.length} selected</span>
+      <Button
+        variant="destructive"
+        size="sm"
+        onClick={() => bulkMutation.mutate({ type: "delete" })}
+      >
+        Delete
+      </Button>
+      <Select value={vessel} onValueChange={setVessel}>
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue placeholder="Vessel" />
+        </SelectTrigger>
+        <SelectContent>
+          {vessels?.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!vessel}
+        onClick={() => bulkMutation.mutate({ type: "reassignVessel", vessel })}
+      >
+        Reassign
+      </Button>
+      <Input
+        type="number"
+        className="h-8 w-24"
+        placeholder="Hours"
+        value={hours}
+        onChange={(event) => setHours(event.target.value)}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!Number(hours)}
+        onClick={() =>
+          bulkMutation.mutate({ type: "shift", hours: Number(hours) })
+        }
+      >
+        Shift
+      </Button>
+      <Select value={unitType} onValueChange={setUnitType}>
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue placeholder="Unit Type" />
+        </SelectTrigger>
+        <SelectContent>
+          {unitTypes?.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!unitType}
+        onClick={() =>
+          bulkMutation.mutate({ type: "addUnitTypes", unitTypes: [unitType] })
+        }
+      >
+        Add
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!unitType}
+        onClick={() =>
+          bulkMutation.mutate({
+            type: "removeUnitTypes",
+            unitTypes: [unitType],
+          })
+        }
+      >
+        Remove
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onDone}>
+        Clear selection
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Badge, type BadgeProps } from "~/components/ui/badge";
+import { type Punctuality, getDelayMinutes, getPunctuality } from "~/utils";
+
+const labels: Record<Punctuality, string> = {
+  onTime: "On time",
+  delayed: "Delayed",
+  early: "Early",
+};
+
+const variants: Record<Punctuality, BadgeProps["variant"]> = {
+  onTime: "secondary",
+  delayed: "destructive",
+  early: "outline",
+};
+
+type Props = {
+  scheduled: Date | string;
+  actual: Date | string | null;
+  estimated: Date | string | null;
+};
+
+/**
+ * Shows how far the actual (or else estimated) time is off schedule. Renders
+ * nothing until a time is reported.
+ */
+export default function VoyageDelayBadge({
+  scheduled,
+  actual,
+  estimated,
+}: Props) {
+  const delay = getDelayMinutes(scheduled, actual, estimated);
+
+  if (delay === null) {
+    return null;
+  }
+
+  const punctuality = getPunctuality(delay);
+
+  return (
+    <Badge
+      variant={variants[punctuality]}
+      className="whitespace-nowrap"
+      title={actual ? "Actual time" : "Estimated time"}
+    >
+      {labels[punctuality]}
+      {delay !== 0 && ` ${delay > 0 ? "+" : "−"}${Math.abs(delay)} min`}
+      {!actual && " (est.)"}
+    </Badge>
+  );
+}
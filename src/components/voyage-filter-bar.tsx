@@ -0,0 +1,187 @@
+import { endOfDay, format, parseISO, startOfDay } from "date-fns";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { type VoyageListParams, voyageStatuses } from "~/schemas/voyage";
+import type { VesselsType } from "~/pages/api/vessel/getAll";
+import type { UnitTypes } from "~/pages/api/unitType/getAll";
+import type { UnitGroups } from "~/pages/api/unitGroup/getAll";
+import type { Ports } from "~/pages/api/port/getAll";
+import PortCombobox from "~/components/port-combobox";
+import { voyageStatusLabels } from "~/components/voyage-status-badge";
+
+// Radix Select does not allow an empty value, so "-" stands for "any".
+const ANY = "-";
+
+type Props = {
+  filters: VoyageListParams;
+  onChange: (filters: VoyageListParams) => void;
+  vessels: VesselsType | undefined;
+  unitTypes: UnitTypes | undefined;
+  unitGroups: UnitGroups | undefined;
+  ports: Ports | undefined;
+};
+
+const toDateInput = (value: string | undefined) =>
+  value ? format(new Date(value), "yyyy-MM-dd") : "";
+
+export default function VoyageFilterBar({
+  filters,
+  onChange,
+  vessels,
+  unitTypes,
+  unitGroups,
+  ports,
+}: Props) {
+  const set = (changes: VoyageListParams) =>
+    onChange({ ...filters, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="grid gap-1">
+        <Label className="text-xs">Vessel</Label>
+        <Select
+          value={filters.vesselId ?? ANY}
+          onValueChange={(value) =>
+            set({ vesselId: value === ANY ? undefined : value })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All vessels</SelectItem>
+            {vessels?.map((vessel) => (
+              <SelectItem key={vessel.value} value={vessel.value}>
+                {vessel.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs">Status</Label>
+        <Select
+          value={filters.status ?? ANY}
+          onValueChange={(value) =>
+            set({ status: value === ANY ? undefined : value })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All statuses</SelectItem>
+            {voyageStatuses.map((status) => (
+              <SelectItem key={status} value={status}>
+                {voyageStatusLabels[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs">Port of loading</Label>
+        <PortCombobox
+          className="w-40"
+          ports={ports}
+          value={filters.portOfLoading}
+          onChange={(portOfLoading) => set({ portOfLoading })}
+          placeholder="All ports"
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs">Port of discharge</Label>
+        <PortCombobox
+          className="w-40"
+          ports={ports}
+          value={filters.portOfDischarge}
+          onChange={(portOfDischarge) => set({ portOfDischarge })}
+          placeholder="All ports"
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs">Departure from</Label>
+        <Input
+          type="date"
+          className="w-40"
+          value={toDateInput(filters.departureFrom)}
+          onChange={(event) =>
+            set({
+              departureFrom: event.target.valueAsDate
+                ? startOfDay(parseISO(event.target.value)).toISOString()
+                : undefined,
+            })
+          }
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs">Departure to</Label>
+        <Input
+          type="date"
+          className="w-40"
+          value={toDateInput(filters.departureTo)}
+          onChange={(event) =>
+            set({
+              departureTo: event.target.valueAsDate
+                ? endOfDay(parseISO(event.target.value)).toISOString()
+                : undefined,
+            })
+          }
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs">Unit type</Label>
+        <Select
+          value={filters.unitTypeId ?? ANY}
+          onValueChange={(value) =>
+            set({ unitTypeId: value === ANY ? undefined : value })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All unit types</SelectItem>
+            {unitTypes?.map((unitType) => (
+              <SelectItem key={unitType.id} value={unitType.id}>
+                {unitType.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-1">
+        <Label className="text-xs">Unit group</Label>
+        <Select
+          value={filters.unitGroupId ?? ANY}
+          onValueChange={(value) =>
+            set({ unitGroupId: value === ANY ? undefined : value })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>All unit groups</SelectItem>
+            {unitGroups?.map((unitGroup) => (
+              <SelectItem key={unitGroup.id} value={unitGroup.id}>
+                {unitGroup.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button variant="ghost" onClick={() => onChange({})}>
+        Reset
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import type { Port } from "@prisma/client";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { voyageStatusLabels } from "~/components/voyage-status-badge";
+import { TABLE_DATE_FORMAT } from "~/constants";
+import type { Ports } from "~/pages/api/port/getAll";
+import type { UnitTypes } from "~/pages/api/unitType/getAll";
+import type { VesselsType } from "~/pages/api/vessel/getAll";
+import type { VoyageHistory } from "~/pages/api/voyage/history";
+import type { VoyageStatus } from "~/schemas/voyage";
+import type { AuditAction, AuditChanges } from "~/server/audit";
+import { fetchData, formatPortTime } from "~/utils";
+
+type Props = {
+  voyageId: string;
+  /** The current ports, whose zones apply unless an entry changed them. */
+  portOfLoading: Port;
+  portOfDischarge: Port;
+};
+
+const actionLabels: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+  status: "Status changed",
+  times: "Times reported",
+};
+
+const fieldLabels = {
+  departure: "Departure",
+  arrival: "Arrival",
+  portOfLoading: "Port of loading",
+  portOfDischarge: "Port of discharge",
+  vessel: "Vessel",
+  status: "Status",
+  cancellationReason: "Cancellation reason",
+  estimatedDeparture: "Estimated departure",
+  estimatedArrival: "Estimated arrival",
+  actualDeparture: "Actual departure",
+  actualArrival: "Actual arrival",
+} as const;
+
+// Departures are shown in the zone of the port of loading, arrivals in the
+// zone of the port of discharge.
+const departureFields: (keyof typeof fieldLabels)[] = [
+  "departure",
+  "estimatedDeparture",
+  "actualDeparture",
+];
+
+const arrivalFields: (keyof typeof fieldLabels)[] = [
+  "arrival",
+  "estimatedArrival",
+  "actualArrival",
+];
+
+type TimeZones = { departure: string; arrival: string };
+
+export default function VoyageHistoryPanel({
+  voyageId,
+  portOfLoading,
+  portOfDischarge,
+}: Props) {
+  const { data: history } = useQuery<VoyageHistory>({
+    queryKey: ["voyages", voyageId, "history"],
+    queryFn: () => fetchData(`voyage/history?id=${voyageId}`),
+  });
+
+  const { data: vessels } = useQuery<VesselsType>({
+    queryKey: ["vessels"],
+    queryFn: () => fetchData("vessel/getAll"),
+  });
+
+  const { data: unitTypes } = useQuery<UnitTypes>({
+    queryKey: ["unitTypes", "includeInactive"],
+    queryFn: () => fetchData("unitType/getAll?includeInactive=true"),
+  });
+
+  const { data: ports } = useQuery<Ports>({
+    queryKey: ["ports"],
+    queryFn: () => fetchData("port/getAll"),
+  });
+
+  const unitTypeName = (id: string) =>
+    unitTypes?.find((unitType) => unitType.id === id)?.name ?? id;
+
+  const timeZoneOf = (id: string | null | undefined, fallback: Port) =>
+    (id && ports?.find((port) => port.id === id)?.timezone) ??
+    fallback.timezone;
+
+  // The zones of the ports before or after the change, for entries that
+  // changed a port together with the times.
+  const timeZonesOf = (
+    changes: AuditChanges,
+    side: "before" | "after",
+  ): TimeZones => ({
+    departure: timeZoneOf(changes.portOfLoading?.[side], portOfLoading),
+    arrival: timeZoneOf(changes.portOfDischarge?.[side], portOfDischarge),
+  });
+
+  const formatValue = (
+    field: keyof typeof fieldLabels,
+    value: string | null | undefined,
+    timeZones: TimeZones,
+  ) => {
+    if (!value) return "-";
+    if (departureFields.includes(field)) {
+      return formatPortTime(value, timeZones.departure);
+    }
+    if (arrivalFields.includes(field)) {
+      return formatPortTime(value, timeZones.arrival);
+    }
+    if (field === "status") {
+      return voyageStatusLabels[value as VoyageStatus] ?? value;
+    }
+    if (field === "vessel") {
+      return vessels?.find((vessel) => vessel.value === value)?.label ?? value;
+    }
+    return value;
+  };
+
+  const describeChanges = (changes: AuditChanges) => {
+    const before = timeZonesOf(changes, "before");
+    const after = timeZonesOf(changes, "after");
+    const lines = (
+      Object.keys(fieldLabels) as (keyof typeof fieldLabels)[]
+    ).flatMap((field) => {
+      const change = changes[field];
+      return change
+        ? [
+            change.before === null
+              ? `${fieldLabels[field]}: ${formatValue(field, change.after, after)}`
+              : `${fieldLabels[field]}: ${formatValue(field, change.before, before)} → ${formatValue(field, change.after, after)}`,
+          ]
+        : [];
+    });
+
+    if (changes.unitTypes) {
+      const before = changes.unitTypes.before ?? [];
+      const after = changes.unitTypes.after ?? [];
+      const added = after.filter((id) => !before.includes(id));
+      const removed = before.filter((id) => !after.includes(id));
+      if (added.length) {
+        lines.push(`Unit types added: ${added.map(unitTypeName).join(", ")}`);
+      }
+      if (removed.length) {
+        lines.push(
+          `Unit types removed: ${removed.map(unitTypeName).join(", ")}`,
+        );
+      }
+    }
+
+    return lines;
+  };
+
+  if (history?.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No changes recorded.</p>
+    );
+  }
+
+  return (
+    <ol className="space-y-4 border-l pl-4">
+      {history?.map((entry) => (
+        <li key={entry.id}>
+          <p className="text-sm">
+            <span className="font-medium">{actionLabels[entry.action]}</span> by{" "}
+            {entry.actor}{" "}
+            <span className="text-muted-foreground">
+              {format(new Date(entry.createdAt), TABLE_DATE_FORMAT)}
+            </span>
+          </p>
+          <ul className="mt-1 space-y-0.5 text-sm text-muted-foreground">
+            {describeChanges(entry.changes).map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
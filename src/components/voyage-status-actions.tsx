@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { useToast } from "~/components/ui/use-toast";
+import { voyageStatusLabels } from "~/components/voyage-status-badge";
+import type { ErrorBody, ValidationErrorBody } from "~/schemas/api";
+import {
+  type VoyageStatus,
+  type VoyageTransitionValues,
+  voyageTransitions,
+} from "~/schemas/voyage";
+
+type Props = {
+  voyageId: string;
+  status: string;
+};
+
+/**
+ * Buttons for the statuses the voyage can move to next. Cancelling asks for a
+ * reason first.
+ */
+export default function VoyageStatusActions({ voyageId, status }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [cancelling, setCancelling] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const transitionMutation = useMutation({
+    mutationFn: async (transition: VoyageTransitionValues) => {
+      const response = await fetch(`/api/voyage/transition?id=${voyageId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(transition),
+      });
+
+      if (response.status === 400 || response.status === 409) {
+        const body = (await response.json()) as ErrorBody;
+        toast({
+          variant: "destructive",
+          title: "Error: Could not change status.",
+          description:
+            body.code === "validationFailed"
+              ? (body as ValidationErrorBody).details
+                  .map(({ message }) => message)
+                  .join(" ")
+              : body.message,
+        });
+        throw new Error("Status change was rejected");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not change status.",
+          description: `A problem occured while attempting to change the status of voyage (id: ${voyageId}).`,
+        });
+        throw new Error("Failed to change the status");
+      } else {
+        toast({
+          variant: "default",
+          description: `Voyage succesfully marked as ${voyageStatusLabels[transition.status].toLowerCase()}.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      setCancelling(false);
+      setReason("");
+      await queryClient.invalidateQueries({ queryKey: ["voyages"] });
+    },
+  });
+
+  const next = voyageTransitions[status as VoyageStatus] ?? [];
+
+  if (next.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {next
+        .filter((option) => option !== "cancelled")
+        .map((option) => (
+          <Button
+            key={option}
+            variant="outline"
+            size="sm"
+            onClick={() => transitionMutation.mutate({ status: option })}
+          >
+            {voyageStatusLabels[option]}
+          </Button>
+        ))}
+      {next.includes("cancelled") &&
+        (cancelling ? (
+          <>
+            <Input
+              className="h-8 w-64"
+              placeholder="Reason for cancelling"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+            />
+            <Button
+              variant="destructive"
+              size="sm"
+              disabled={!reason.trim()}
+              onClick={() =>
+                transitionMutation.mutate({ status: "cancelled", reason })
+              }
+            >
+              Cancel voyage
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCancelling(false)}
+            >
+              Keep
+            </Button>
+          </>
+        ) : (
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => setCancelling(true)}
+          >
+            Cancel voyage
+          </Button>
+        ))}
+    </div>
+  );
+}
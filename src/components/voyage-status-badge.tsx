@@ -0,0 +1,38 @@
+import { Badge, type BadgeProps } from "~/components/ui/badge";
+import type { VoyageStatus } from "~/schemas/voyage";
+
+export const voyageStatusLabels: Record<VoyageStatus, string> = {
+  planned: "Planned",
+  openForBooking: "Open for booking",
+  closed: "Closed",
+  departed: "Departed",
+  arrived: "Arrived",
+  cancelled: "Cancelled",
+};
+
+const variants: Record<VoyageStatus, BadgeProps["variant"]> = {
+  planned: "outline",
+  openForBooking: "default",
+  closed: "secondary",
+  departed: "secondary",
+  arrived: "outline",
+  cancelled: "destructive",
+};
+
+type Props = {
+  status: string;
+  /** Shown on hover, e.g. the cancellation reason. */
+  title?: string;
+};
+
+export default function VoyageStatusBadge({ status, title }: Props) {
+  return (
+    <Badge
+      variant={variants[status as VoyageStatus]}
+      title={title}
+      className="whitespace-nowrap"
+    >
+      {voyageStatusLabels[status as VoyageStatus] ?? status}
+    </Badge>
+  );
+}
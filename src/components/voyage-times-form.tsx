@@ -0,0 +1,147 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import PortDateTimePicker from "~/components/port-date-time-picker";
+import { Button } from "~/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { useToast } from "~/components/ui/use-toast";
+import type { VoyageDetail } from "~/pages/api/voyage/[id]";
+import type { ErrorBody } from "~/schemas/api";
+import { type VoyageTimesValues, voyageTimesSchema } from "~/schemas/voyage";
+import { applyApiError } from "~/utils";
+
+type Props = {
+  voyage: VoyageDetail;
+};
+
+const fields = [
+  { name: "estimatedDeparture", label: "Estimated departure", end: "loading" },
+  { name: "actualDeparture", label: "Actual departure", end: "loading" },
+  { name: "estimatedArrival", label: "Estimated arrival", end: "discharge" },
+  { name: "actualArrival", label: "Actual arrival", end: "discharge" },
+] as const;
+
+const toDate = (value: Date | string | null) =>
+  value ? new Date(value) : null;
+
+/**
+ * Form to report the estimated and actual times of a voyage, entered in the
+ * local time of the port like the schedule.
+ */
+export default function VoyageTimesForm({ voyage }: Props) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const timesForm = useForm<VoyageTimesValues>({
+    resolver: zodResolver(voyageTimesSchema),
+    values: {
+      estimatedDeparture: toDate(voyage.estimatedDeparture),
+      estimatedArrival: toDate(voyage.estimatedArrival),
+      actualDeparture: toDate(voyage.actualDeparture),
+      actualArrival: toDate(voyage.actualArrival),
+    },
+  });
+
+  const reportTimesMutation = useMutation({
+    mutationFn: async (times: VoyageTimesValues) => {
+      const response = await fetch(`/api/voyage/reportTimes?id=${voyage.id}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(times),
+      });
+
+      if (response.status === 400) {
+        await applyApiError(
+          response,
+          timesForm,
+          "Error: Could not report times.",
+        );
+
+        throw new Error("Times failed server validation");
+      } else if (response.status === 409) {
+        const { message } = (await response.json()) as ErrorBody;
+        toast({
+          variant: "destructive",
+          title: "Error: Could not report times.",
+          description: message,
+        });
+        throw new Error("Times were rejected");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not report times.",
+          description: `A problem occured while attempting to report the times of voyage (id: ${voyage.id}).`,
+        });
+        throw new Error("Failed to report the times");
+      } else {
+        toast({
+          variant: "default",
+          description: `Times succesfully reported.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["voyages"] });
+    },
+  });
+
+  const onSubmit = (values: VoyageTimesValues) =>
+    reportTimesMutation.mutate(values);
+
+  return (
+    <Form {...timesForm}>
+      <form
+        onSubmit={(event) => void timesForm.handleSubmit(onSubmit)(event)}
+        className="space-y-4"
+      >
+        <div className="grid grid-cols-2 gap-4">
+          {fields.map(({ name, label, end }) => (
+            <FormField
+              key={name}
+              control={timesForm.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>{label}</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <PortDateTimePicker
+                        value={field.value ?? undefined}
+                        onChange={(date) => field.onChange(date ?? null)}
+                        timeZone={
+                          end === "loading"
+                            ? voyage.portOfLoading.timezone
+                            : voyage.portOfDischarge.timezone
+                        }
+                      />
+                    </FormControl>
+                    {field.value && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => field.onChange(null)}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <Button type="submit">Report times</Button>
+      </form>
+    </Form>
+  );
+}
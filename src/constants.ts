@@ -1 +1,4 @@
-export const TABLE_DATE_FORMAT = "dd/MM/yyyy HH:ss";
+export const TABLE_DATE_FORMAT = "dd/MM/yyyy HH:mm";
+
+/** Minutes a voyage may deviate from its schedule and still count as on time. */
+export const ON_TIME_TOLERANCE_MINUTES = 15;
@@ -9,6 +9,13 @@ export const env = createEnv({
   server: {
     DATABASE_URL: z.string().url(),
     NODE_ENV: z.enum(["development", "test", "production"]),
+    UTILIZATION_WARNING_THRESHOLD: z.coerce.number().min(0).max(1).default(0.9),
+    MIN_TURNAROUND_MINUTES: z.coerce.number().int().min(0).default(60),
+    NEXTAUTH_SECRET:
+      process.env.NODE_ENV === "production"
+        ? z.string()
+        : z.string().optional(),
+    NEXTAUTH_URL: z.string().url(),
   },
 
   /**
@@ -27,6 +34,10 @@ export const env = createEnv({
   runtimeEnv: {
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
+    UTILIZATION_WARNING_THRESHOLD: process.env.UTILIZATION_WARNING_THRESHOLD,
+    MIN_TURNAROUND_MINUTES: process.env.MIN_TURNAROUND_MINUTES,
+    NEXTAUTH_SECRET: process.env.NEXTAUTH_SECRET,
+    NEXTAUTH_URL: process.env.NEXTAUTH_URL,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
@@ -4,21 +4,25 @@ import {
   QueryClient,
   QueryClientProvider,
 } from "@tanstack/react-query";
+import { type Session } from "next-auth";
+import { SessionProvider } from "next-auth/react";
 import { type AppType } from "next/dist/shared/lib/utils";
 import React, { useState } from "react";
 import "~/styles/globals.css";
 
-const MyApp: AppType<{ dehydratedState: DehydratedState }> = ({
-  Component,
-  pageProps,
-}) => {
+const MyApp: AppType<{
+  dehydratedState: DehydratedState;
+  session: Session | null;
+}> = ({ Component, pageProps: { session, ...pageProps } }) => {
   const [queryClient] = useState(() => new QueryClient());
   return (
-    <QueryClientProvider client={queryClient}>
-      <HydrationBoundary state={pageProps.dehydratedState}>
-        <Component {...pageProps} />
-      </HydrationBoundary>
-    </QueryClientProvider>
+    <SessionProvider session={session}>
+      <QueryClientProvider client={queryClient}>
+        <HydrationBoundary state={pageProps.dehydratedState}>
+          <Component {...pageProps} />
+        </HydrationBoundary>
+      </QueryClientProvider>
+    </SessionProvider>
   );
 };
 
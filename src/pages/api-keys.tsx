@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import Head from "next/head";
+import { useSession } from "next-auth/react";
+import Layout from "~/components/layout";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { Input } from "~/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "~/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { TABLE_DATE_FORMAT } from "~/constants";
+import {
+  type ApiKeyValues,
+  apiKeySchema,
+  apiKeyScopeLabels,
+  apiKeyScopes,
+} from "~/schemas/apiKey";
+import { hasRole } from "~/schemas/user";
+import { applyApiError, cn, fetchData } from "~/utils";
+import type { CreatedApiKey } from "./api/apiKey/create";
+import type { ApiKeys } from "./api/apiKey/getAll";
+
+const emptyApiKey: ApiKeyValues = {
+  name: "",
+  scopes: ["voyages:read"],
+};
+
+export default function ApiKeysPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+
+  const [open, setOpen] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  const apiKeyForm = useForm<ApiKeyValues>({
+    resolver: zodResolver(apiKeySchema),
+    defaultValues: emptyApiKey,
+  });
+
+  const { data: apiKeys } = useQuery<ApiKeys>({
+    queryKey: ["apiKeys"],
+    queryFn: () => fetchData("apiKey/getAll"),
+    enabled: hasRole(session?.user.role, "admin"),
+  });
+
+  const createApiKeyMutation = useMutation({
+    mutationFn: async (apiKeyData: ApiKeyValues) => {
+      const response = await fetch(`/api/apiKey/create`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(apiKeyData),
+      });
+
+      if (response.status === 400) {
+        await applyApiError(
+          response,
+          apiKeyForm,
+          "Error: Could not create API key.",
+        );
+
+        throw new Error("API key failed server validation");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not create API key.",
+          description: `A problem occured while attempting to create API key.`,
+        });
+        throw new Error("Failed to create the API key");
+      }
+
+      return (await response.json()) as CreatedApiKey;
+    },
+    onSuccess: async (created) => {
+      setCreatedKey(created);
+      apiKeyForm.reset(emptyApiKey);
+      setOpen(false);
+      await queryClient.invalidateQueries({ queryKey: ["apiKeys"] });
+    },
+  });
+
+  const revokeApiKeyMutation = useMutation({
+    mutationFn: async (apiKeyId: string) => {
+      const response = await fetch(`/api/apiKey/revoke?id=${apiKeyId}`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not revoke API key.",
+          description: `A problem occured while attempting to revoke API key (id: ${apiKeyId}).`,
+        });
+        throw new Error("Failed to revoke the API key");
+      } else {
+        toast({
+          variant: "default",
+          description: `API key succesfully revoked.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["apiKeys"] });
+    },
+  });
+
+  const copyKey = async (key: string) => {
+    await navigator.clipboard.writeText(key);
+    toast({ variant: "default", description: "API key copied." });
+  };
+
+  function onSubmit(values: ApiKeyValues) {
+    createApiKeyMutation.mutate(values);
+  }
+
+  return (
+    <>
+      <Head>
+        <title>API Keys | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout role="admin">
+        <div className="flex w-full flex-col">
+          <div className="my-6">
+            <Button
+              variant="default"
+              onClick={() => {
+                apiKeyForm.reset(emptyApiKey);
+                setOpen(true);
+              }}
+            >
+              Create
+            </Button>
+            <Sheet open={open} onOpenChange={setOpen}>
+              <SheetContent side="left">
+                <SheetHeader>
+                  <SheetTitle>Create New API Key</SheetTitle>
+                </SheetHeader>
+                <Form {...apiKeyForm}>
+                  <form
+                    onSubmit={(event) =>
+                      void apiKeyForm.handleSubmit(onSubmit)(event)
+                    }
+                  >
+                    <div className="mt-6">
+                      <FormField
+                        control={apiKeyForm.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="e.g. Booking system"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={apiKeyForm.control}
+                        name="scopes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Scopes</FormLabel>
+                            {apiKeyScopes.map((scope) => (
+                              <div
+                                key={scope}
+                                className="flex flex-row items-center space-x-3"
+                              >
+                                <FormControl>
+                                  <Checkbox
+                                    id={`scope-${scope}`}
+                                    checked={field.value.includes(scope)}
+                                    onCheckedChange={(checked) =>
+                                      field.onChange(
+                                        checked === true
+                                          ? [...field.value, scope]
+                                          : field.value.filter(
+                                              (value) => value !== scope,
+                                            ),
+                                      )
+                                    }
+                                  />
+                                </FormControl>
+                                <label
+                                  htmlFor={`scope-${scope}`}
+                                  className="text-sm"
+                                >
+                                  {apiKeyScopeLabels[scope]}
+                                </label>
+                              </div>
+                            ))}
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <SheetFooter>
+                      <Button type="submit" className="mt-6">
+                        Create API Key
+                      </Button>
+                    </SheetFooter>
+                  </form>
+                </Form>
+              </SheetContent>
+            </Sheet>
+          </div>
+          {createdKey && (
+            <div className="mb-6 space-y-2 rounded-md border p-4">
+              <p className="text-sm">
+                Copy the key for {createdKey.name} now. It is not shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="rounded bg-muted px-2 py-1 text-sm">
+                  {createdKey.key}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void copyKey(createdKey.key)}
+                >
+                  Copy
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCreatedKey(null)}
+                >
+                  Done
+                </Button>
+              </div>
+            </div>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Created by</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>&nbsp;</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys?.map((apiKey) => (
+                <TableRow
+                  key={apiKey.id}
+                  className={cn(apiKey.revokedAt && "text-muted-foreground")}
+                >
+                  <TableCell>{apiKey.name}</TableCell>
+                  <TableCell>
+                    <code>{apiKey.prefix}…</code>
+                  </TableCell>
+                  <TableCell>
+                    {apiKey.scopes
+                      .map((scope) => apiKeyScopeLabels[scope])
+                      .join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    {format(new Date(apiKey.createdAt), TABLE_DATE_FORMAT)}
+                  </TableCell>
+                  <TableCell>{apiKey.createdBy}</TableCell>
+                  <TableCell>
+                    {apiKey.lastUsedAt
+                      ? format(new Date(apiKey.lastUsedAt), TABLE_DATE_FORMAT)
+                      : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    {apiKey.revokedAt
+                      ? `Revoked ${format(new Date(apiKey.revokedAt), TABLE_DATE_FORMAT)}`
+                      : "Active"}
+                  </TableCell>
+                  <TableCell>
+                    {!apiKey.revokedAt && (
+                      <Button
+                        variant="destructive"
+                        onClick={() => revokeApiKeyMutation.mutate(apiKey.id)}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </Layout>
+    </>
+  );
+}
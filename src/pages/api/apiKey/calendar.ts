@@ -0,0 +1,68 @@
+import type { NextApiResponse } from "next";
+import { ApiError, createApiHandler } from "~/server/api";
+import { generateApiKey, toApiKeyListItem } from "~/server/apiKey";
+import { getActor } from "~/server/audit";
+import { type AuthenticatedRequest, withRole } from "~/server/auth";
+import { prisma } from "~/server/db";
+import { withRateLimit } from "~/server/rateLimit";
+import type { CreatedApiKey } from "./create";
+
+/**
+ * @swagger
+ * /api/apiKey/calendar:
+ *   post:
+ *     tags:
+ *       - ApiKey
+ *     summary: Issues a calendar feed key
+ *     description: Creates a key with the voyages:read scope for the signed-in user, to pass as `key` to the calendar feed, and revokes the calendar key issued to the user before. Calendar apps cannot send headers, so the feed takes the key from its URL. Keys are stored hashed, so the key is only returned in this response and every subscription link gets a new one. It can be revoked on the API Keys page.
+ *     responses:
+ *       201:
+ *         description: The created API key, including the key itself.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiKey'
+ *                 - type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *       403:
+ *         description: Only signed-in users can create calendar keys, not other API keys.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "viewer",
+    withRateLimit(async (req, res: NextApiResponse<CreatedApiKey>) => {
+      const { caller } = req as AuthenticatedRequest;
+
+      if (caller.type !== "user") {
+        throw new ApiError(
+          "forbidden",
+          "Calendar keys can only be created by signed-in users.",
+        );
+      }
+
+      const name = `Calendar feed of ${caller.email}`;
+      const createdBy = getActor(req);
+      const { key, prefix, keyHash } = generateApiKey();
+
+      // One calendar key per user, so keys do not pile up with every link.
+      const [, createdApiKey] = await prisma.$transaction([
+        prisma.apiKey.updateMany({
+          where: { name, createdBy, revokedAt: null },
+          data: { revokedAt: new Date() },
+        }),
+        prisma.apiKey.create({
+          data: { name, prefix, keyHash, scopes: "voyages:read", createdBy },
+        }),
+      ]);
+
+      res.status(201).json({ ...toApiKeyListItem(createdApiKey), key });
+    }),
+  ),
+});
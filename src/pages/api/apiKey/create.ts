@@ -0,0 +1,89 @@
+import type { NextApiResponse } from "next";
+import { apiKeySchema } from "~/schemas/apiKey";
+import { createApiHandler, withInput } from "~/server/api";
+import {
+  type ApiKeyListItem,
+  generateApiKey,
+  toApiKeyListItem,
+} from "~/server/apiKey";
+import { getActor } from "~/server/audit";
+import { withRole } from "~/server/auth";
+import { prisma } from "~/server/db";
+import { withRateLimit } from "~/server/rateLimit";
+
+/** A created API key, with the key itself as it is only shown this once. */
+export type CreatedApiKey = ApiKeyListItem & { key: string };
+
+/**
+ * @swagger
+ * /api/apiKey/create:
+ *   post:
+ *     tags:
+ *       - ApiKey
+ *     summary: Creates a new API key
+ *     description: Creates a key for a system to call the API with, sent as a bearer token in the Authorization header. The key is only returned in this response; store it safely.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: What the key is used for, e.g. the calling system.
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [voyages:read, voyages:write, admin]
+ *     responses:
+ *       201:
+ *         description: The created API key, including the key itself.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiKey'
+ *                 - type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { body: apiKeySchema },
+        async (req, res: NextApiResponse<CreatedApiKey>, { body }) => {
+          const { key, prefix, keyHash } = generateApiKey();
+          const createdApiKey = await prisma.apiKey.create({
+            data: {
+              name: body.name,
+              prefix,
+              keyHash,
+              scopes: [...new Set(body.scopes)].join(","),
+              createdBy: getActor(req),
+            },
+          });
+
+          res.status(201).json({ ...toApiKeyListItem(createdApiKey), key });
+        },
+      ),
+    ),
+  ),
+});
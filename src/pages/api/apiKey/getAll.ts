@@ -0,0 +1,34 @@
+import type { NextApiResponse } from "next";
+import { createApiHandler } from "~/server/api";
+import { type ApiKeyListItem, toApiKeyListItem } from "~/server/apiKey";
+import { withRole } from "~/server/auth";
+import { prisma } from "~/server/db";
+
+export type ApiKeys = ApiKeyListItem[];
+
+/**
+ * @swagger
+ * /api/apiKey/getAll:
+ *   get:
+ *     tags:
+ *       - ApiKey
+ *     summary: Retrieves all API keys
+ *     description: Returns all API keys, including revoked ones, newest first. The keys themselves are never returned, only their prefix.
+ *     responses:
+ *       200:
+ *         description: A list of API keys.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ */
+export default createApiHandler({
+  GET: withRole("admin", async (_, res: NextApiResponse<ApiKeys>) => {
+    const apiKeys = await prisma.apiKey.findMany({
+      orderBy: { createdAt: "desc" },
+    });
+    res.status(200).json(apiKeys.map(toApiKeyListItem));
+  }),
+});
@@ -0,0 +1,65 @@
+import type { NextApiResponse } from "next";
+import { idQuerySchema } from "~/schemas/api";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { type ApiKeyListItem, toApiKeyListItem } from "~/server/apiKey";
+import { withRole } from "~/server/auth";
+import { prisma } from "~/server/db";
+import { withRateLimit } from "~/server/rateLimit";
+
+/**
+ * @swagger
+ * /api/apiKey/revoke/{id}:
+ *   post:
+ *     tags:
+ *       - ApiKey
+ *     summary: Revokes an API key
+ *     description: Stops the key from being accepted right away. Revoked keys are kept so that changes made with them can still be traced.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the API key to revoke.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The revoked API key.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       404:
+ *         description: The API key with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only POST method is supported on this endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { query: idQuerySchema },
+        async (req, res: NextApiResponse<ApiKeyListItem>, { query }) => {
+          const current = await prisma.apiKey.findUnique({
+            where: { id: query.id },
+          });
+
+          if (!current) {
+            throw new ApiError("notFound", "The API key was not found.");
+          }
+
+          const revokedApiKey = current.revokedAt
+            ? current
+            : await prisma.apiKey.update({
+                where: { id: current.id },
+                data: { revokedAt: new Date() },
+              });
+
+          res.status(200).json(toApiKeyListItem(revokedApiKey));
+        },
+      ),
+    ),
+  ),
+});
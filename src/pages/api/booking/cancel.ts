@@ -0,0 +1,77 @@
+import type { Booking } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { idQuerySchema } from "~/schemas/api";
+import { hasDeparted } from "~/schemas/voyage";
+
+/**
+ * @swagger
+ * /api/booking/cancel/{id}:
+ *   post:
+ *     tags:
+ *       - Booking
+ *     summary: Cancels a booking
+ *     description: Marks a booking as cancelled. Cancelled bookings are kept but no longer count towards the voyage utilization. Bookings of voyages that have departed cannot be cancelled.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the booking to cancel.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The cancelled booking.
+ *       404:
+ *         description: The booking with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only POST method is supported on this endpoint.
+ *       409:
+ *         description: The booking is already cancelled, or its voyage has departed.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput(
+        { query: idQuerySchema },
+        async (req, res: NextApiResponse<Booking>, { query }) => {
+          const booking = await prisma.booking.findUnique({
+            where: { id: query.id },
+            include: { voyage: { select: { status: true } } },
+          });
+
+          if (!booking) {
+            throw new ApiError("notFound", "The booking was not found.");
+          }
+
+          if (booking.cancelledAt) {
+            throw new ApiError(
+              "conflict",
+              "The booking has already been cancelled.",
+            );
+          }
+
+          if (hasDeparted(booking.voyage.status)) {
+            throw new ApiError(
+              "conflict",
+              "Bookings of voyages that have departed cannot be cancelled.",
+            );
+          }
+
+          const cancelledBooking = await prisma.booking.update({
+            where: { id: booking.id },
+            data: { cancelledAt: new Date() },
+          });
+
+          res.status(200).json(cancelledBooking);
+        },
+      ),
+    ),
+  ),
+});
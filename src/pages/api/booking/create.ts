@@ -0,0 +1,118 @@
+import type { Booking } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import {
+  ApiError,
+  createApiHandler,
+  validationFailed,
+  withInput,
+} from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { bookingSchema } from "~/schemas/booking";
+import { isOpenForBooking } from "~/schemas/voyage";
+
+/**
+ * @swagger
+ * /api/booking/create:
+ *   post:
+ *     tags:
+ *       - Booking
+ *     summary: Creates a new booking
+ *     description: Books cargo on a voyage that is open for booking. The unit type must be one of the unit types accepted by the voyage and must not be deactivated.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - voyageId
+ *               - unitTypeId
+ *             properties:
+ *               voyageId:
+ *                 type: string
+ *               unitTypeId:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 1
+ *               unitNumber:
+ *                 type: string
+ *                 description: Identifies a single unit. Only allowed with a quantity of one.
+ *               customerReference:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: The created booking.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The voyage with the specified ID was not found.
+ *       409:
+ *         description: The voyage is not open for booking.
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput(
+        { body: bookingSchema },
+        async (req, res: NextApiResponse<Booking>, { body }) => {
+          const voyage = await prisma.voyage.findFirst({
+            where: { id: body.voyageId, deletedAt: null },
+            include: { unitTypes: { select: { id: true, active: true } } },
+          });
+
+          if (!voyage) {
+            throw new ApiError("notFound", "The voyage was not found.");
+          }
+
+          if (!isOpenForBooking(voyage.status)) {
+            throw new ApiError(
+              "conflict",
+              "Bookings can only be added while the voyage is open for booking.",
+            );
+          }
+
+          const unitType = voyage.unitTypes.find(
+            ({ id }) => id === body.unitTypeId,
+          );
+
+          if (!unitType) {
+            throw validationFailed([
+              {
+                path: "unitTypeId",
+                message: "The voyage does not accept this unit type.",
+              },
+            ]);
+          }
+
+          if (!unitType.active) {
+            throw validationFailed([
+              {
+                path: "unitTypeId",
+                message: `Unit type ${unitType.id} is inactive and cannot be booked.`,
+              },
+            ]);
+          }
+
+          const createdBooking = await prisma.booking.create({
+            data: body,
+          });
+
+          res.status(201).json(createdBooking);
+        },
+      ),
+    ),
+  ),
+});
@@ -0,0 +1,73 @@
+import type { Booking, UnitType } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { bookingListQuerySchema } from "~/schemas/booking";
+
+export type Bookings = (Booking & { unitType: UnitType })[];
+
+/**
+ * @swagger
+ * /api/booking/getAll:
+ *   get:
+ *     tags:
+ *       - Booking
+ *     summary: Retrieves the bookings of a voyage
+ *     description: Returns all bookings of a voyage, including cancelled ones, with their unit type.
+ *     parameters:
+ *       - in: query
+ *         name: voyageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A list of bookings, newest first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   voyageId:
+ *                     type: string
+ *                   unitTypeId:
+ *                     type: string
+ *                   quantity:
+ *                     type: integer
+ *                   unitNumber:
+ *                     type: string
+ *                     nullable: true
+ *                   customerReference:
+ *                     type: string
+ *                     nullable: true
+ *                   cancelledAt:
+ *                     type: string
+ *                     format: date-time
+ *                     nullable: true
+ *                   unitType:
+ *                     type: object
+ *       400:
+ *         description: The voyageId query parameter is missing.
+ */
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: bookingListQuerySchema },
+      async (req, res: NextApiResponse<Bookings>, { query }) => {
+        const bookings = await prisma.booking.findMany({
+          where: { voyageId: query.voyageId },
+          include: { unitType: true },
+          orderBy: { createdAt: "desc" },
+        });
+
+        res.status(200).json(bookings);
+      },
+    ),
+  ),
+});
@@ -9,6 +9,296 @@ const swaggerHandler = withSwagger({
         "Swagger API Documentation for Mock API",
       version: "0.1.0",
     },
+    security: [{ sessionCookie: [] }, { bearerAuth: [] }],
+    components: {
+      securitySchemes: {
+        sessionCookie: {
+          type: "apiKey",
+          in: "cookie",
+          name: "next-auth.session-token",
+          description:
+            "Session of a user signed in on /signin. Viewers can read, planners can also change voyages, schedules and bookings, and admins can also manage master data and API keys.",
+        },
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "API key created on the API Keys page, sent as `Authorization: Bearer <key>`. The scope voyages:read grants what viewers can do, voyages:write what planners can do and admin what admins can do.",
+        },
+        calendarKey: {
+          type: "apiKey",
+          in: "query",
+          name: "key",
+          description:
+            "API key with the voyages:read scope in the URL of the calendar feed, as calendar apps cannot send headers. Signed-in users get one from /api/apiKey/calendar.",
+        },
+      },
+      parameters: {
+        IdempotencyKey: {
+          in: "header",
+          name: "Idempotency-Key",
+          required: false,
+          description:
+            "A unique value, e.g. a UUID, to safely retry the request. A successful response is stored for 24 hours and replayed, with the `Idempotent-Replayed` header, when the same key is sent again. Reusing a key for a different request gives a 422, and sending it while the first request is still handled gives a 409. A request that did not finish within 5 minutes no longer blocks the key.",
+          schema: { type: "string", maxLength: 255 },
+        },
+      },
+      responses: {
+        TooManyRequests: {
+          description:
+            "Too many requests. Each user or API key can make 60 changing requests per minute.",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Error" },
+            },
+          },
+          headers: {
+            "Retry-After": {
+              description: "Seconds until requests are accepted again.",
+              schema: { type: "integer" },
+            },
+          },
+        },
+      },
+      schemas: {
+        Port: {
+          type: "object",
+          properties: {
+            id: { type: "string", description: "UN/LOCODE of the port." },
+            name: { type: "string" },
+            country: { type: "string" },
+            timezone: {
+              type: "string",
+              description: "IANA timezone, e.g. Europe/Copenhagen.",
+            },
+            latitude: { type: "number", nullable: true },
+            longitude: { type: "number", nullable: true },
+          },
+        },
+        Utilization: {
+          type: "object",
+          description: "Lane meters booked on a voyage versus the vessel capacity.",
+          properties: {
+            bookingCount: {
+              type: "integer",
+              description: "Number of bookings that are not cancelled.",
+            },
+            bookedLaneMeters: { type: "number" },
+            capacityLaneMeters: { type: "number" },
+            ratio: {
+              type: "number",
+              nullable: true,
+              description:
+                "Booked share of the capacity, or null when the vessel has no capacity set.",
+            },
+            warning: {
+              type: "boolean",
+              description:
+                "True when the ratio is above the configured warning threshold.",
+            },
+          },
+        },
+        ScheduleConflict: {
+          type: "object",
+          description:
+            "Voyages of the same vessel that the submitted schedule clashes with.",
+          properties: {
+            code: { type: "string", enum: ["scheduleConflict"] },
+            message: { type: "string" },
+            details: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  voyageId: { type: "string" },
+                  reason: {
+                    type: "string",
+                    enum: ["overlap", "turnaround", "portContinuity"],
+                  },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        ScheduleRule: {
+          type: "object",
+          required: [
+            "portOfLoading",
+            "portOfDischarge",
+            "vessel",
+            "unitTypes",
+            "weekdays",
+            "departureTime",
+            "durationMinutes",
+            "startDate",
+            "endDate",
+          ],
+          properties: {
+            portOfLoading: {
+              type: "string",
+              description: "UN/LOCODE of the port where the voyages start.",
+            },
+            portOfDischarge: {
+              type: "string",
+              description: "UN/LOCODE of the port where the voyages end.",
+            },
+            vessel: { type: "string", description: "ID of the vessel." },
+            unitTypes: {
+              type: "array",
+              items: { type: "string" },
+              description: "Unit type IDs attached to every voyage.",
+            },
+            weekdays: {
+              type: "array",
+              items: { type: "integer", minimum: 0, maximum: 6 },
+              description: "Days of the week to sail on, 0 is Sunday.",
+            },
+            departureTime: {
+              type: "string",
+              example: "15:00",
+              description:
+                "Departure time of day (HH:mm), local time at the port each voyage leaves from.",
+            },
+            durationMinutes: {
+              type: "integer",
+              description: "Transit time from departure to arrival.",
+            },
+            startDate: { type: "string", format: "date" },
+            endDate: { type: "string", format: "date" },
+            exceptionDates: {
+              type: "array",
+              items: { type: "string", format: "date" },
+              description: "Dates to skip.",
+            },
+            alternate: {
+              type: "boolean",
+              default: false,
+              description:
+                "Sail every other voyage back from the port of discharge. Voyages of a series must start in the port the previous one ends in, so a series of more than one voyage needs this.",
+            },
+          },
+        },
+        ScheduleOccurrence: {
+          type: "object",
+          properties: {
+            departure: { type: "string", format: "date-time" },
+            arrival: { type: "string", format: "date-time" },
+            portOfLoading: { type: "string" },
+            portOfDischarge: { type: "string" },
+            conflicts: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  voyageId: { type: "string" },
+                  reason: {
+                    type: "string",
+                    enum: ["overlap", "turnaround", "portContinuity"],
+                  },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+        AuditEntry: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            voyageId: { type: "string" },
+            action: {
+              type: "string",
+              enum: ["create", "update", "delete", "restore", "status", "times"],
+            },
+            actor: { type: "string" },
+            createdAt: { type: "string", format: "date-time" },
+            changes: {
+              type: "object",
+              description:
+                "Changed fields (departure, arrival, portOfLoading, portOfDischarge, vessel, unitTypes, deletedAt, status, cancellationReason, estimatedDeparture, estimatedArrival, actualDeparture, actualArrival) with their value before and after the change.",
+              additionalProperties: {
+                type: "object",
+                properties: {
+                  before: { nullable: true },
+                  after: { nullable: true },
+                },
+              },
+            },
+          },
+        },
+        ApiKey: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            prefix: {
+              type: "string",
+              description: "The start of the key, to recognise it by.",
+            },
+            scopes: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["voyages:read", "voyages:write", "admin"],
+              },
+            },
+            createdBy: { type: "string" },
+            createdAt: { type: "string", format: "date-time" },
+            lastUsedAt: { type: "string", format: "date-time", nullable: true },
+            revokedAt: { type: "string", format: "date-time", nullable: true },
+          },
+        },
+        Error: {
+          type: "object",
+          description:
+            "Body of every error response. Clients can rely on the code, unlike on the message.",
+          properties: {
+            code: {
+              type: "string",
+              enum: [
+                "badRequest",
+                "validationFailed",
+                "unauthorized",
+                "forbidden",
+                "notFound",
+                "methodNotAllowed",
+                "conflict",
+                "scheduleConflict",
+                "idempotencyKeyReused",
+                "tooManyRequests",
+                "internalError",
+              ],
+            },
+            message: { type: "string" },
+            details: {
+              description:
+                "Further information that depends on the code, e.g. the field-level issues of a validationFailed error.",
+            },
+          },
+        },
+        ValidationError: {
+          type: "object",
+          properties: {
+            code: { type: "string", enum: ["validationFailed"] },
+            message: { type: "string" },
+            details: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  path: {
+                    type: "string",
+                    description: "Name of the offending field.",
+                  },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
   },
   apiFolder: "src/pages/api",
 });
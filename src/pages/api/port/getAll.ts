@@ -0,0 +1,64 @@
+import type { Port } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { portListQuerySchema } from "~/schemas/port";
+
+export type Ports = Port[];
+
+/**
+ * @swagger
+ * /api/port/getAll:
+ *   get:
+ *     tags:
+ *       - Port
+ *     summary: Retrieves all ports
+ *     description: Returns a list of ports, optionally narrowed down by a search term matching the UN/LOCODE, name or country.
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A list of ports.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Port'
+ *       400:
+ *         description: Invalid query parameters. The body lists the offending parameters.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       500:
+ *         description: Internal Server Error - if there's an issue fetching the ports.
+ */
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: portListQuerySchema },
+      async (req, res: NextApiResponse<Ports>, { query: { search } }) => {
+        const ports = await prisma.port.findMany({
+          where: search
+            ? {
+                OR: [
+                  { id: { contains: search } },
+                  { name: { contains: search } },
+                  { country: { contains: search } },
+                ],
+              }
+            : {},
+          orderBy: { name: "asc" },
+        });
+
+        res.status(200).json(ports);
+      },
+    ),
+  ),
+});
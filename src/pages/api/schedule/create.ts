@@ -0,0 +1,152 @@
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import {
+  ApiError,
+  createApiHandler,
+  validationFailed,
+  withInput,
+} from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import type { ErrorBody } from "~/schemas/api";
+import { scheduleSchema } from "~/schemas/schedule";
+import {
+  type ScheduleOccurrence,
+  previewSchedule,
+  validateSchedule,
+} from "~/server/schedule";
+
+export type CreatedSchedule = {
+  count: number;
+};
+
+/**
+ * Body returned with a 409 response when voyages of the schedule clash with
+ * the vessel's schedule. Lists the conflicting voyages of the schedule.
+ */
+export type ScheduleConflictsBody = ErrorBody<ScheduleOccurrence[]> & {
+  code: "scheduleConflict";
+  details: ScheduleOccurrence[];
+};
+
+/**
+ * @swagger
+ * /api/schedule/create:
+ *   post:
+ *     tags:
+ *       - Schedule
+ *     summary: Creates the voyages of a recurring schedule
+ *     description: Creates every voyage produced by a schedule rule in one transaction. Nothing is created when any of the voyages conflicts with the vessel's existing voyages.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScheduleRule'
+ *     responses:
+ *       201:
+ *         description: The voyages were created.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 count:
+ *                   type: integer
+ *                   description: Number of voyages created.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       409:
+ *         description: Some of the voyages conflict with the vessel's schedule. The body lists the voyages that conflict.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 code:
+ *                   type: string
+ *                   enum: [scheduleConflict]
+ *                 message:
+ *                   type: string
+ *                 details:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ScheduleOccurrence'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput(
+        { body: scheduleSchema },
+        async (req, res: NextApiResponse<CreatedSchedule>, { body }) => {
+          const issues = await validateSchedule(body);
+
+          if (issues.length) {
+            throw validationFailed(issues);
+          }
+
+          const occurrences = await previewSchedule(body);
+          const conflicting = occurrences.filter(
+            ({ conflicts }) => conflicts.length,
+          );
+
+          if (conflicting.length) {
+            throw new ApiError(
+              "scheduleConflict",
+              `${conflicting.length} of the voyages conflict with the vessel's schedule.`,
+              conflicting,
+            );
+          }
+
+          const { vessel, unitTypes } = body;
+
+          const actor = getActor(req);
+
+          const createdVoyages = await prisma.$transaction(async (tx) => {
+            const voyages = [];
+
+            for (const occurrence of occurrences) {
+              const voyage = await tx.voyage.create({
+                data: {
+                  scheduledDeparture: occurrence.departure,
+                  scheduledArrival: occurrence.arrival,
+                  portOfLoadingId: occurrence.portOfLoading,
+                  portOfDischargeId: occurrence.portOfDischarge,
+                  vesselId: vessel,
+                  unitTypes: {
+                    connect: unitTypes.map((id) => ({ id })),
+                  },
+                },
+                include: { unitTypes: true },
+              });
+
+              await recordVoyageAudit(tx, {
+                voyageId: voyage.id,
+                action: "create",
+                actor,
+                before: null,
+                after: toSnapshot(voyage),
+              });
+
+              voyages.push(voyage);
+            }
+
+            return voyages;
+          });
+
+          res.status(201).json({ count: createdVoyages.length });
+        },
+      ),
+    ),
+  ),
+});
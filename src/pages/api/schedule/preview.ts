@@ -0,0 +1,66 @@
+import type { NextApiResponse } from "next";
+import { scheduleSchema } from "~/schemas/schedule";
+import {
+  type ScheduleOccurrence,
+  previewSchedule,
+  validateSchedule,
+} from "~/server/schedule";
+import { createApiHandler, validationFailed, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+
+export type SchedulePreview = {
+  occurrences: ScheduleOccurrence[];
+};
+
+/**
+ * @swagger
+ * /api/schedule/preview:
+ *   post:
+ *     tags:
+ *       - Schedule
+ *     summary: Previews a recurring schedule
+ *     description: Lists the voyages a schedule rule would create, each with the existing voyages of the vessel it conflicts with. Nothing is saved.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScheduleRule'
+ *     responses:
+ *       200:
+ *         description: The voyages the rule would create.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 occurrences:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ScheduleOccurrence'
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withInput(
+      { body: scheduleSchema },
+      async (req, res: NextApiResponse<SchedulePreview>, { body }) => {
+        const issues = await validateSchedule(body);
+
+        if (issues.length) {
+          throw validationFailed(issues);
+        }
+
+        res.status(200).json({ occurrences: await previewSchedule(body) });
+      },
+    ),
+  ),
+});
@@ -0,0 +1,58 @@
+import type { UnitGroup, UnitType } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler } from "~/server/api";
+import { withRole } from "~/server/auth";
+
+export type UnitGroups = (UnitGroup & { unitTypes: UnitType[] })[];
+
+/**
+ * @swagger
+ * /api/unitGroup/getAll:
+ *   get:
+ *     tags:
+ *       - UnitGroup
+ *     summary: Retrieves all unit groups
+ *     description: Returns a list of all unit groups, each with its active unit types.
+ *     responses:
+ *       200:
+ *         description: A list of unit groups with their active unit types.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   name:
+ *                     type: string
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *                   updatedAt:
+ *                     type: string
+ *                     format: date-time
+ *                   unitTypes:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *       500:
+ *         description: Internal Server Error - if there's an issue fetching the unit groups.
+ */
+export default createApiHandler({
+  GET: withRole("viewer", async (_, res: NextApiResponse<UnitGroups>) => {
+    const unitGroups = await prisma.unitGroup.findMany({
+      orderBy: { name: "asc" },
+      include: {
+        unitTypes: {
+          where: { active: true },
+          orderBy: { name: "asc" },
+        },
+      },
+    });
+
+    res.status(200).json(unitGroups);
+  }),
+});
@@ -0,0 +1,104 @@
+import type { UnitType } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import {
+  ApiError,
+  createApiHandler,
+  validationFailed,
+  withInput,
+} from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { unitTypeSchema } from "~/schemas/unitType";
+
+/**
+ * @swagger
+ * /api/unitType/create:
+ *   post:
+ *     tags:
+ *       - UnitType
+ *     summary: Creates a new unit type
+ *     description: Creates a new unit type with its master data.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - id
+ *               - name
+ *               - defaultLength
+ *               - unitGroupId
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 description: Code of the unit type, e.g. 20FL.
+ *               name:
+ *                 type: string
+ *               defaultLength:
+ *                 type: number
+ *                 description: Default length in meters.
+ *               allowDrivers:
+ *                 type: boolean
+ *               unitGroupId:
+ *                 type: string
+ *               mandatoryField:
+ *                 type: string
+ *               unitNumberAvailable:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: The created unit type.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       409:
+ *         description: A unit type with the same code already exists.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { body: unitTypeSchema },
+        async (req, res: NextApiResponse<UnitType>, { body }) => {
+          if (
+            body.unitGroupId &&
+            !(await prisma.unitGroup.findUnique({
+              where: { id: body.unitGroupId },
+            }))
+          ) {
+            throw validationFailed([
+              { path: "unitGroupId", message: "Unknown unit group." },
+            ]);
+          }
+
+          const existing = await prisma.unitType.findUnique({
+            where: { id: body.id },
+          });
+
+          if (existing) {
+            throw new ApiError(
+              "conflict",
+              "A unit type with this ID already exists.",
+            );
+          }
+
+          const createdUnitType = await prisma.unitType.create({
+            data: body,
+          });
+
+          res.status(201).json(createdUnitType);
+        },
+      ),
+    ),
+  ),
+});
@@ -0,0 +1,59 @@
+import type { UnitType } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { idQuerySchema } from "~/schemas/api";
+
+/**
+ * @swagger
+ * /api/unitType/deactivate/{id}:
+ *   post:
+ *     tags:
+ *       - UnitType
+ *     summary: Deactivates a unit type
+ *     description: Hides a unit type from selection, and voyages and bookings can no longer add it. Existing voyages keep their unit types. Unit types are never deleted because voyages may reference them.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The code of the unit type to deactivate.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The deactivated unit type.
+ *       404:
+ *         description: The unit type with the specified code was not found.
+ *       405:
+ *         description: Method Not Allowed. Only POST method is supported on this endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { query: idQuerySchema },
+        async (req, res: NextApiResponse<UnitType>, { query }) => {
+          const current = await prisma.unitType.findUnique({
+            where: { id: query.id },
+          });
+
+          if (!current) {
+            throw new ApiError("notFound", "The unit type was not found.");
+          }
+
+          const deactivatedUnitType = await prisma.unitType.update({
+            where: { id: current.id },
+            data: { active: false },
+          });
+
+          res.status(200).json(deactivatedUnitType);
+        },
+      ),
+    ),
+  ),
+});
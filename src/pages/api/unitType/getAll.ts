@@ -1,6 +1,9 @@
-import { UnitType } from "@prisma/client";
-import type { NextApiHandler, NextApiResponse } from "next";
+import type { UnitType } from "@prisma/client";
+import type { NextApiResponse } from "next";
 import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { unitTypeListQuerySchema } from "~/schemas/unitType";
 
 export type UnitTypes = UnitType[];
 
@@ -10,11 +13,18 @@ export type UnitTypes = UnitType[];
  *   get:
  *     tags:
  *       - UnitType
- *     summary: Retrieves all vessels
- *     description: Returns a list of all vessels formatted for dropdown selection, with each vessel's name as the label and its id as the value.
+ *     summary: Retrieves all unit types
+ *     description: Returns a list of all active unit types with their master data. Deactivated unit types are only included when requested.
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         description: Also return deactivated unit types.
+ *         schema:
+ *           type: boolean
+ *           default: false
  *     responses:
  *       200:
- *         description: A list of vessels formatted for dropdown use.
+ *         description: A list of unit types.
  *         content:
  *           application/json:
  *             schema:
@@ -28,21 +38,44 @@ export type UnitTypes = UnitType[];
  *                     type: string
  *                   defaultLength:
  *                     type: number
+ *                   allowDrivers:
+ *                     type: boolean
+ *                   unitGroupId:
+ *                     type: string
+ *                   mandatoryField:
+ *                     type: string
+ *                     nullable: true
+ *                   unitNumberAvailable:
+ *                     type: boolean
+ *                   active:
+ *                     type: boolean
  *                   createdAt:
  *                     type: string
  *                     format: date-time
  *                   updatedAt:
  *                     type: string
  *                     format: date-time
+ *       400:
+ *         description: Invalid query parameters. The body lists the offending parameters.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  *       500:
- *         description: Internal Server Error - if there's an issue fetching the vessels.
+ *         description: Internal Server Error - if there's an issue fetching the unit types.
  */
-const handler: NextApiHandler = async (
-  _,
-  res: NextApiResponse<UnitTypes>,
-) => {
-  const allUnitTypes: UnitType[] = await prisma.unitType.findMany();
-  res.status(200).json(allUnitTypes);
-};
-
-export default handler;
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: unitTypeListQuerySchema },
+      async (req, res: NextApiResponse<UnitTypes>, { query }) => {
+        const allUnitTypes: UnitType[] = await prisma.unitType.findMany({
+          where: query.includeInactive === "true" ? {} : { active: true },
+          orderBy: { name: "asc" },
+        });
+        res.status(200).json(allUnitTypes);
+      },
+    ),
+  ),
+});
@@ -0,0 +1,103 @@
+import type { UnitType } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import {
+  ApiError,
+  createApiHandler,
+  validationFailed,
+  withInput,
+} from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { idQuerySchema } from "~/schemas/api";
+import { unitTypeUpdateSchema } from "~/schemas/unitType";
+
+/**
+ * @swagger
+ * /api/unitType/update/{id}:
+ *   patch:
+ *     tags:
+ *       - UnitType
+ *     summary: Updates a unit type
+ *     description: Applies partial changes to an existing unit type. Omitted fields are left unchanged. Setting `active` to true reactivates a deactivated unit type.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The code of the unit type to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               defaultLength:
+ *                 type: number
+ *               allowDrivers:
+ *                 type: boolean
+ *               unitGroupId:
+ *                 type: string
+ *               mandatoryField:
+ *                 type: string
+ *               unitNumberAvailable:
+ *                 type: boolean
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: The updated unit type.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The unit type with the specified code was not found.
+ *       405:
+ *         description: Method Not Allowed. Only PATCH method is supported on this endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  PATCH: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { query: idQuerySchema, body: unitTypeUpdateSchema },
+        async (req, res: NextApiResponse<UnitType>, { query, body }) => {
+          const current = await prisma.unitType.findUnique({
+            where: { id: query.id },
+          });
+
+          if (!current) {
+            throw new ApiError("notFound", "The unit type was not found.");
+          }
+
+          if (
+            body.unitGroupId &&
+            !(await prisma.unitGroup.findUnique({
+              where: { id: body.unitGroupId },
+            }))
+          ) {
+            throw validationFailed([
+              { path: "unitGroupId", message: "Unknown unit group." },
+            ]);
+          }
+
+          const updatedUnitType = await prisma.unitType.update({
+            where: { id: current.id },
+            data: body,
+          });
+
+          res.status(200).json(updatedUnitType);
+        },
+      ),
+    ),
+  ),
+});
@@ -0,0 +1,63 @@
+import type { Vessel } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { vesselSchema } from "~/schemas/vessel";
+
+/**
+ * @swagger
+ * /api/vessel/create:
+ *   post:
+ *     tags:
+ *       - Vessel
+ *     summary: Creates a new vessel
+ *     description: Creates a new vessel that can be assigned to voyages.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - laneMeterCapacity
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Name of the vessel.
+ *               laneMeterCapacity:
+ *                 type: number
+ *                 description: Lane meters available for cargo on the vessel.
+ *     responses:
+ *       201:
+ *         description: The created vessel.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { body: vesselSchema },
+        async (req, res: NextApiResponse<Vessel>, { body }) => {
+          const createdVessel = await prisma.vessel.create({
+            data: body,
+          });
+
+          res.status(201).json(createdVessel);
+        },
+      ),
+    ),
+  ),
+});
@@ -0,0 +1,137 @@
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import type { ErrorBody } from "~/schemas/api";
+import { vesselDeleteQuerySchema } from "~/schemas/vessel";
+
+type VesselVoyageCounts = { voyageCount: number; deletedVoyageCount: number };
+
+export type VesselInUseBody = ErrorBody<VesselVoyageCounts> & {
+  code: "conflict";
+  details: VesselVoyageCounts;
+};
+
+export type DeletedVessel = { purgedVoyageCount: number };
+
+/**
+ * @swagger
+ * /api/vessel/delete/{id}:
+ *   delete:
+ *     tags:
+ *       - Vessel
+ *     summary: Deletes a vessel
+ *     description: Deletes a vessel by its ID. Vessels that are still assigned to voyages cannot be deleted; reassign or delete those voyages first. Voyages that were already deleted, and their bookings, are removed for good together with the vessel, so this has to be confirmed with `purgeDeleted`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the vessel to delete.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: purgeDeleted
+ *         description: Confirms that deleted voyages of the vessel are removed with it.
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: The vessel was successfully deleted.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 purgedVoyageCount:
+ *                   type: integer
+ *                   description: Number of deleted voyages removed with the vessel.
+ *       400:
+ *         description: Invalid query parameters. The body lists the offending parameters.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *
+ *       404:
+ *         description: The vessel with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
+ *       409:
+ *         description: The vessel is still assigned to voyages, or it has deleted voyages and `purgeDeleted` was not set.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Error'
+ *                 - type: object
+ *                   properties:
+ *                     details:
+ *                       type: object
+ *                       properties:
+ *                         voyageCount:
+ *                           type: integer
+ *                           description: Number of voyages referencing the vessel.
+ *                         deletedVoyageCount:
+ *                           type: integer
+ *                           description: Number of deleted voyages referencing the vessel.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  DELETE: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { query: vesselDeleteQuerySchema },
+        async (req, res: NextApiResponse<DeletedVessel>, { query }) => {
+          const vessel = await prisma.vessel.findUnique({
+            where: { id: query.id },
+          });
+
+          if (!vessel) {
+            throw new ApiError("notFound", "The vessel was not found.");
+          }
+
+          const [voyageCount, deletedVoyageCount] = await Promise.all([
+            prisma.voyage.count({
+              where: { vesselId: vessel.id, deletedAt: null },
+            }),
+            prisma.voyage.count({
+              where: { vesselId: vessel.id, deletedAt: { not: null } },
+            }),
+          ]);
+          const counts = { voyageCount, deletedVoyageCount };
+
+          if (voyageCount > 0) {
+            throw new ApiError(
+              "conflict",
+              `${vessel.name} is assigned to ${voyageCount} voyage(s).`,
+              counts,
+            );
+          }
+
+          // Deleted voyages still reference the vessel, so they can only go
+          // with it, and their bookings with them.
+          if (deletedVoyageCount > 0 && query.purgeDeleted !== "true") {
+            throw new ApiError(
+              "conflict",
+              `${vessel.name} has ${deletedVoyageCount} deleted voyage(s), which would be removed for good.`,
+              counts,
+            );
+          }
+
+          await prisma.$transaction([
+            prisma.voyage.deleteMany({
+              where: { vesselId: vessel.id, deletedAt: { not: null } },
+            }),
+            prisma.vessel.delete({ where: { id: vessel.id } }),
+          ]);
+
+          res.status(200).json({ purgedVoyageCount: deletedVoyageCount });
+        },
+      ),
+    ),
+  ),
+});
@@ -1,5 +1,7 @@
-import type { NextApiHandler, NextApiResponse } from "next";
+import type { NextApiResponse } from "next";
 import { prisma } from "~/server/db";
+import { createApiHandler } from "~/server/api";
+import { withRole } from "~/server/auth";
 
 // Assuming the type for a single vessel object.
 type Vessel = {
@@ -36,11 +38,11 @@ export type VesselsType = ({ value: string, label: string })[];
  *       500:
  *         description: Internal Server Error - if there's an issue fetching the vessels.
  */
-const handler: NextApiHandler = async (_, res: NextApiResponse<VesselsType>) => {
+export default createApiHandler({
+  GET: withRole("viewer", async (_, res: NextApiResponse<VesselsType>) => {
     const allVessel: Vessel[] = await prisma.vessel.findMany();
     const vessels = allVessel.map(vessel => ({ label: vessel.name, value: vessel.id }))
 
     res.status(200).json(vessels);
-};
-
-export default handler;
+  }),
+});
@@ -0,0 +1,75 @@
+import type { Port, Vessel, Voyage } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler } from "~/server/api";
+import { withRole } from "~/server/auth";
+
+export type VesselWithVoyages = Vessel & {
+  voyages: (Voyage & { portOfLoading: Port; portOfDischarge: Port })[];
+  _count: { voyages: number };
+};
+
+/**
+ * @swagger
+ * /api/vessel/getAllWithVoyages:
+ *   get:
+ *     tags:
+ *       - Vessel
+ *     summary: Retrieves all vessels with their upcoming voyages
+ *     description: Returns every vessel with the voyages it is scheduled to depart on from now on, ordered by departure, and the total number of voyages assigned to it.
+ *     responses:
+ *       200:
+ *         description: A list of vessels with their upcoming voyages.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: string
+ *                   name:
+ *                     type: string
+ *                   laneMeterCapacity:
+ *                     type: number
+ *                   createdAt:
+ *                     type: string
+ *                     format: date-time
+ *                   updatedAt:
+ *                     type: string
+ *                     format: date-time
+ *                   voyages:
+ *                     type: array
+ *                     description: Upcoming voyages of the vessel.
+ *                     items:
+ *                       type: object
+ *                   _count:
+ *                     type: object
+ *                     properties:
+ *                       voyages:
+ *                         type: integer
+ *                         description: Number of voyages assigned to the vessel, including past ones but not deleted ones.
+ *       500:
+ *         description: Internal Server Error - if there's an issue fetching the vessels.
+ */
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    async (_, res: NextApiResponse<VesselWithVoyages[]>) => {
+      const vessels = await prisma.vessel.findMany({
+        orderBy: { name: "asc" },
+        include: {
+          voyages: {
+            where: { scheduledDeparture: { gte: new Date() }, deletedAt: null },
+            orderBy: { scheduledDeparture: "asc" },
+            include: { portOfLoading: true, portOfDischarge: true },
+          },
+          _count: { select: { voyages: { where: { deletedAt: null } } } },
+        },
+      });
+
+      res.status(200).json(vessels);
+    },
+  ),
+});
@@ -0,0 +1,79 @@
+import type { Vessel } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { idQuerySchema } from "~/schemas/api";
+import { vesselSchema } from "~/schemas/vessel";
+
+/**
+ * @swagger
+ * /api/vessel/update/{id}:
+ *   patch:
+ *     tags:
+ *       - Vessel
+ *     summary: Updates a vessel
+ *     description: Applies partial changes to an existing vessel. Omitted fields are left unchanged.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the vessel to update.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Name of the vessel.
+ *               laneMeterCapacity:
+ *                 type: number
+ *                 description: Lane meters available for cargo on the vessel.
+ *     responses:
+ *       200:
+ *         description: The updated vessel.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The vessel with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only PATCH method is supported on this endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  PATCH: withRole(
+    "admin",
+    withRateLimit(
+      withInput(
+        { query: idQuerySchema, body: vesselSchema.partial() },
+        async (req, res: NextApiResponse<Vessel>, { query, body }) => {
+          const current = await prisma.vessel.findUnique({
+            where: { id: query.id },
+          });
+
+          if (!current) {
+            throw new ApiError("notFound", "The vessel was not found.");
+          }
+
+          const updatedVessel = await prisma.vessel.update({
+            where: { id: current.id },
+            data: body,
+          });
+
+          res.status(200).json(updatedVessel);
+        },
+      ),
+    ),
+  ),
+});
@@ -0,0 +1,58 @@
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { idQuerySchema } from "~/schemas/api";
+import {
+  type VoyageWithUtilization,
+  voyageInclude,
+  withUtilization,
+} from "~/server/voyage";
+
+export type VoyageDetail = VoyageWithUtilization;
+
+/**
+ * @swagger
+ * /api/voyage/{id}:
+ *   get:
+ *     tags:
+ *       - Voyage
+ *     summary: Retrieves a voyage
+ *     description: Returns a single voyage, including details about its vessel, ports and unit types.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The voyage with its associated vessel and unit types.
+ *       404:
+ *         description: The voyage with the specified ID was not found.
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: idQuerySchema },
+      async (req, res: NextApiResponse<VoyageDetail>, { query }) => {
+        const voyage = await prisma.voyage.findUnique({
+          where: {
+            id: query.id,
+          },
+          include: voyageInclude,
+        });
+
+        if (!voyage) {
+          throw new ApiError("notFound", "The voyage was not found.");
+        }
+
+        res.status(200).json(withUtilization(voyage));
+      },
+    ),
+  ),
+});
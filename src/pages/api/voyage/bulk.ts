@@ -0,0 +1,264 @@
+import type { Prisma } from "@prisma/client";
+import { addHours } from "date-fns";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import {
+  findScheduleConflicts,
+  mergeVoyage,
+  validateBookedUnitTypes,
+  validateVoyageReferences,
+} from "~/server/voyage";
+import {
+  type VoyageBulkAction,
+  type VoyageUpdateValues,
+  hasDeparted,
+  voyageBulkSchema,
+  voyageSchema,
+} from "~/schemas/voyage";
+
+export type BulkResult =
+  | { id: string; success: true }
+  | { id: string; success: false; message: string };
+
+export type BulkResultBody = {
+  results: BulkResult[];
+};
+
+function toChanges(
+  action: Exclude<VoyageBulkAction, { type: "delete" }>,
+  current: { scheduledDeparture: Date; scheduledArrival: Date },
+): VoyageUpdateValues {
+  switch (action.type) {
+    case "reassignVessel":
+      return { vessel: action.vessel };
+    case "shift":
+      return {
+        departure: addHours(current.scheduledDeparture, action.hours),
+        arrival: addHours(current.scheduledArrival, action.hours),
+      };
+    case "addUnitTypes":
+      return { unitTypes: { connect: action.unitTypes } };
+    case "removeUnitTypes":
+      return { unitTypes: { disconnect: action.unitTypes } };
+  }
+}
+
+/**
+ * Applies the action to one voyage within the bulk transaction. Voyages that
+ * fail validation are left untouched and reported.
+ */
+async function applyAction(
+  tx: Prisma.TransactionClient,
+  id: string,
+  action: VoyageBulkAction,
+  actor: string,
+): Promise<BulkResult> {
+  const current = await tx.voyage.findFirst({
+    where: { id, deletedAt: null },
+    include: {
+      unitTypes: true,
+      bookings: {
+        where: { cancelledAt: null },
+        select: { unitTypeId: true },
+      },
+    },
+  });
+
+  if (!current) {
+    return { id, success: false, message: "Voyage not found." };
+  }
+
+  if (hasDeparted(current.status)) {
+    return {
+      id,
+      success: false,
+      message: "Voyages that have departed cannot be changed.",
+    };
+  }
+
+  if (action.type === "delete") {
+    const deletedVoyage = await tx.voyage.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+      include: { unitTypes: true },
+    });
+    await recordVoyageAudit(tx, {
+      voyageId: id,
+      action: "delete",
+      actor,
+      before: toSnapshot(current),
+      after: toSnapshot(deletedVoyage),
+    });
+    return { id, success: true };
+  }
+
+  const merged = voyageSchema.safeParse(
+    mergeVoyage(current, toChanges(action, current)),
+  );
+
+  if (!merged.success) {
+    return { id, success: false, message: merged.error.issues[0]!.message };
+  }
+
+  const issues = [
+    ...(await validateVoyageReferences(
+      merged.data,
+      tx,
+      current.unitTypes.map(({ id }) => id),
+    )),
+    ...validateBookedUnitTypes(current.bookings, merged.data.unitTypes),
+  ];
+
+  if (issues.length) {
+    return { id, success: false, message: issues[0]!.message };
+  }
+
+  const conflicts = await findScheduleConflicts(merged.data, id, tx);
+
+  if (conflicts.length) {
+    return { id, success: false, message: conflicts[0]!.message };
+  }
+
+  const { departure, arrival, vessel, unitTypes } = merged.data;
+
+  const updatedVoyage = await tx.voyage.update({
+    where: { id },
+    data: {
+      scheduledDeparture: departure,
+      scheduledArrival: arrival,
+      vesselId: vessel,
+      unitTypes: {
+        set: unitTypes.map((unitTypeId) => ({ id: unitTypeId })),
+      },
+    },
+    include: { unitTypes: true },
+  });
+  await recordVoyageAudit(tx, {
+    voyageId: id,
+    action: "update",
+    actor,
+    before: toSnapshot(current),
+    after: toSnapshot(updatedVoyage),
+  });
+
+  return { id, success: true };
+}
+
+/**
+ * @swagger
+ * /api/voyage/bulk:
+ *   post:
+ *     tags:
+ *       - Voyage
+ *     summary: Applies an action to several voyages
+ *     description: Deletes, reassigns, shifts or changes the unit types of several voyages in one transaction. Each voyage is validated like a single update; voyages that fail are left unchanged and reported in the results, the others are saved.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ids
+ *               - action
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *                 description: IDs of the voyages to change.
+ *               action:
+ *                 type: object
+ *                 required:
+ *                   - type
+ *                 description: "`delete`, `reassignVessel` (with `vessel`), `shift` (with `hours`, may be negative), or `addUnitTypes` / `removeUnitTypes` (with `unitTypes`)."
+ *                 properties:
+ *                   type:
+ *                     type: string
+ *                     enum: [delete, reassignVessel, shift, addUnitTypes, removeUnitTypes]
+ *                   vessel:
+ *                     type: string
+ *                   hours:
+ *                     type: integer
+ *                   unitTypes:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: The outcome for every voyage.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       success:
+ *                         type: boolean
+ *                       message:
+ *                         type: string
+ *                         description: Why the voyage was not changed.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput(
+        { body: voyageBulkSchema },
+        async (req, res: NextApiResponse<BulkResultBody>, { body }) => {
+          const { ids, action } = body;
+          const actor = getActor(req);
+
+          // Shift voyages in the direction of travel, so a voyage never clashes with
+          // the old slot of a selected voyage that has yet to move.
+          const voyages = await prisma.voyage.findMany({
+            where: { id: { in: ids } },
+            select: { id: true },
+            orderBy: {
+              scheduledDeparture:
+                action.type === "shift" && action.hours > 0 ? "desc" : "asc",
+            },
+          });
+          const orderedIds = [
+            ...voyages.map(({ id }) => id),
+            ...ids.filter((id) => !voyages.some((voyage) => voyage.id === id)),
+          ];
+
+          const results = await prisma.$transaction(
+            async (tx) => {
+              const outcomes: BulkResult[] = [];
+              for (const id of orderedIds) {
+                outcomes.push(await applyAction(tx, id, action, actor));
+              }
+              return outcomes;
+            },
+            { timeout: 30000 },
+          );
+
+          res.status(200).json({ results });
+        },
+      ),
+    ),
+  ),
+});
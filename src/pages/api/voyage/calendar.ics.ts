@@ -0,0 +1,116 @@
+import { subDays } from "date-fns";
+import type { NextApiResponse } from "next";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { getApiKeyCaller } from "~/server/auth";
+import { prisma } from "~/server/db";
+import { toICalendar } from "~/server/ical";
+import { hasRole } from "~/schemas/user";
+import { voyageCalendarQuerySchema } from "~/schemas/voyage";
+
+// Calendar apps can neither sign in nor send headers, so this feed is not
+// guarded by `withRole`. It takes an API key with the voyages:read scope from
+// the `key` parameter instead.
+
+/** How far back the feed goes, so recent changes still reach calendars. */
+const HISTORY_DAYS = 30;
+
+/**
+ * @swagger
+ * /api/voyage/calendar.ics:
+ *   get:
+ *     tags:
+ *       - Voyage
+ *     summary: Calendar feed of voyages
+ *     description: An iCalendar feed to subscribe to from calendar apps, with one event per voyage departing in the last 30 days or later. Event UIDs are derived from the voyage ID, so changed voyages are updated and deleted or cancelled voyages are shown as cancelled.
+ *     security:
+ *       - calendarKey: []
+ *     parameters:
+ *       - in: query
+ *         name: vesselId
+ *         description: Only voyages of this vessel.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfLoading
+ *         description: Only voyages from this port (UN/LOCODE).
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfDischarge
+ *         description: Only voyages to this port (UN/LOCODE).
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The calendar.
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid query parameters. The body lists the offending parameters.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       401:
+ *         description: The key is missing, not valid or does not have the voyages:read scope.
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+export default createApiHandler({
+  GET: withInput(
+    { query: voyageCalendarQuerySchema },
+    async (req, res: NextApiResponse<string>, { query }) => {
+      const { vesselId, portOfLoading, portOfDischarge, key } = query;
+      const caller = key ? await getApiKeyCaller(key) : null;
+
+      if (!caller || !hasRole(caller.role, "viewer")) {
+        throw new ApiError(
+          "unauthorized",
+          "The calendar feed needs a valid key with the voyages:read scope.",
+        );
+      }
+
+      const voyages = await prisma.voyage.findMany({
+        where: {
+          vesselId,
+          portOfLoadingId: portOfLoading,
+          portOfDischargeId: portOfDischarge,
+          scheduledDeparture: { gte: subDays(new Date(), HISTORY_DAYS) },
+        },
+        include: { vessel: true, portOfLoading: true, portOfDischarge: true },
+        orderBy: { scheduledDeparture: "asc" },
+      });
+
+      const vessel = vesselId
+        ? await prisma.vessel.findUnique({ where: { id: vesselId } })
+        : null;
+      const route =
+        portOfLoading ?? portOfDischarge
+          ? `${portOfLoading ?? "any port"} → ${portOfDischarge ?? "any port"}`
+          : null;
+      const name = [vessel?.name ?? "Voyages", route].filter(Boolean).join(" ");
+
+      const calendar = toICalendar(
+        name,
+        voyages.map((voyage) => ({
+          uid: `${voyage.id}@voyages.dfds`,
+          // Seconds since the epoch grow with every update.
+          sequence: Math.floor(voyage.updatedAt.getTime() / 1000),
+          start: voyage.scheduledDeparture,
+          end: voyage.scheduledArrival,
+          updatedAt: voyage.updatedAt,
+          summary: `${voyage.vessel.name}: ${voyage.portOfLoading.name} → ${voyage.portOfDischarge.name}`,
+          location: `${voyage.portOfLoading.name}, ${voyage.portOfLoading.country}`,
+          description: `${voyage.portOfLoading.name} (${voyage.portOfLoading.id}) to ${voyage.portOfDischarge.name} (${voyage.portOfDischarge.id}) on ${voyage.vessel.name}.`,
+          cancelled: voyage.deletedAt !== null || voyage.status === "cancelled",
+        })),
+      );
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="voyages.ics"');
+      res.status(200).send(calendar);
+    },
+  ),
+});
@@ -1,5 +1,15 @@
-import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
 import { prisma } from "~/server/db";
+import { createApiHandler, validationFailed, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withIdempotency } from "~/server/idempotency";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import { voyageSchema } from "~/schemas/voyage";
+import {
+  findScheduleConflicts,
+  scheduleConflict,
+  validateVoyageReferences,
+} from "~/server/voyage";
 
 /**
  * @swagger
@@ -9,6 +19,8 @@ import { prisma } from "~/server/db";
  *       - Voyage
  *     summary: Creates a new voyage
  *     description: Creates a new voyage with specified details including departure, arrival, ports, vessel, and unit types.
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -33,10 +45,10 @@ import { prisma } from "~/server/db";
  *                 description: Scheduled arrival date and time.
  *               portOfLoading:
  *                 type: string
- *                 description: The port where the voyage starts.
+ *                 description: UN/LOCODE of the port where the voyage starts.
  *               portOfDischarge:
  *                 type: string
- *                 description: The port where the voyage ends.
+ *                 description: UN/LOCODE of the port where the voyage ends.
  *               vessel:
  *                 type: string
  *                 description: ID of the vessel used for the voyage.
@@ -48,45 +60,81 @@ import { prisma } from "~/server/db";
  *     responses:
  *       201:
  *         description: Voyage created successfully.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       409:
+ *         description: The vessel is already scheduled on a conflicting voyage. The body lists the conflicting voyages.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleConflict'
  *       500:
  *         description: Internal server error, indicates failure to create the voyage.
  *       405:
  *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       422:
+ *         description: The Idempotency-Key was already used for another request.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-const handler: NextApiHandler = async (
-  req: NextApiRequest,
-  res: NextApiResponse<undefined>,
-) => {
-  if (req.method === "POST") {
-    if (req.method === "POST") {
-      const {
-        departure,
-        arrival,
-        portOfLoading,
-        portOfDischarge,
-        vessel,
-        unitTypes,
-      } = req.body;
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withIdempotency(
+        withInput({ body: voyageSchema }, async (req, res, { body }) => {
+          const issues = await validateVoyageReferences(body);
 
-      const createdVoyage = await prisma.voyage.create({
-        data: {
-          scheduledDeparture: departure,
-          scheduledArrival: arrival,
-          portOfLoading,
-          portOfDischarge,
-          vesselId: vessel,
-          unitTypes: {
-            connect: unitTypes.map((id: string) => ({ id })),
-          },
-        },
-      });
+          if (issues.length) {
+            throw validationFailed(issues);
+          }
 
-      createdVoyage ? res.status(201) : res.status(500);
-      res.end();
-      return;
-    }
+          const conflicts = await findScheduleConflicts(body);
 
-    res.status(405).end();
-  }
-};
-export default handler;
+          if (conflicts.length) {
+            throw scheduleConflict(conflicts);
+          }
+
+          const {
+            departure,
+            arrival,
+            portOfLoading,
+            portOfDischarge,
+            vessel,
+            unitTypes,
+          } = body;
+
+          await prisma.$transaction(async (tx) => {
+            const voyage = await tx.voyage.create({
+              data: {
+                scheduledDeparture: departure,
+                scheduledArrival: arrival,
+                portOfLoadingId: portOfLoading,
+                portOfDischargeId: portOfDischarge,
+                vesselId: vessel,
+                unitTypes: {
+                  connect: unitTypes.map((id: string) => ({ id })),
+                },
+              },
+              include: { unitTypes: true },
+            });
+
+            await recordVoyageAudit(tx, {
+              voyageId: voyage.id,
+              action: "create",
+              actor: getActor(req),
+              before: null,
+              after: toSnapshot(voyage),
+            });
+          });
+
+          res.status(201).end();
+        }),
+      ),
+    ),
+  ),
+});
@@ -1,6 +1,12 @@
 import type { Vessel, Voyage } from "@prisma/client";
-import type { NextApiHandler, NextApiResponse, NextApiRequest } from "next";
 import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withIdempotency } from "~/server/idempotency";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import { idQuerySchema } from "~/schemas/api";
+import { hasDeparted } from "~/schemas/voyage";
 
 export type ReturnType = (Voyage & { vessel: Vessel })[];
 
@@ -11,7 +17,7 @@ export type ReturnType = (Voyage & { vessel: Vessel })[];
  *     tags:
  *       - Voyage
  *     summary: Deletes a voyage
- *     description: Deletes a voyage by its ID. Note that this operation randomly fails to demonstrate error handling.
+ *     description: Deletes a voyage by its ID. The voyage is hidden from the voyage list but kept, so it can be brought back with `/api/voyage/restore`. Note that this operation randomly fails to demonstrate error handling.
  *     parameters:
  *       - in: path
  *         name: id
@@ -19,6 +25,7 @@ export type ReturnType = (Voyage & { vessel: Vessel })[];
  *         description: The ID of the voyage to delete.
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     responses:
  *       204:
  *         description: The voyage was successfully deleted.
@@ -26,32 +33,67 @@ export type ReturnType = (Voyage & { vessel: Vessel })[];
  *         description: Failed to delete the voyage due to a random error.
  *       404:
  *         description: The voyage with the specified ID was not found.
+ *       409:
+ *         description: The voyage has departed and can no longer be deleted.
  *       405:
  *         description: Method Not Allowed. Only DELETE method is supported on this endpoint.
+ *       422:
+ *         description: The Idempotency-Key was already used for another request.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
  */
-const handler: NextApiHandler = async (
-  req: NextApiRequest,
-  res: NextApiResponse<undefined>,
-) => {
-  if (req.method === "DELETE") {
-    // randomly fail the delete request
-    const maybe = Math.round(Math.random());
-    if (maybe) {
-      res.status(400).end();
-      return;
-    }
-    const deletedVoyage = await prisma.voyage.delete({
-      where: {
-        id: req.query.id as string,
-      },
-    });
+export default createApiHandler({
+  DELETE: withRole(
+    "planner",
+    withRateLimit(
+      withIdempotency(
+        withInput({ query: idQuerySchema }, async (req, res, { query }) => {
+          // randomly fail the delete request
+          const maybe = Math.round(Math.random());
+          if (maybe) {
+            throw new ApiError(
+              "badRequest",
+              "The voyage could not be deleted.",
+            );
+          }
+          const voyage = await prisma.voyage.findFirst({
+            where: {
+              id: query.id,
+              deletedAt: null,
+            },
+            include: { unitTypes: true },
+          });
 
-    deletedVoyage ? res.status(204) : res.status(404);
-    res.end();
-    return;
-  }
+          if (!voyage) {
+            throw new ApiError("notFound", "The voyage was not found.");
+          }
 
-  res.status(405).end();
-};
+          if (hasDeparted(voyage.status)) {
+            throw new ApiError(
+              "conflict",
+              "Voyages that have departed cannot be deleted.",
+            );
+          }
 
-export default handler;
+          await prisma.$transaction(async (tx) => {
+            const deletedVoyage = await tx.voyage.update({
+              where: { id: voyage.id },
+              data: { deletedAt: new Date() },
+              include: { unitTypes: true },
+            });
+
+            await recordVoyageAudit(tx, {
+              voyageId: voyage.id,
+              action: "delete",
+              actor: getActor(req),
+              before: toSnapshot(voyage),
+              after: toSnapshot(deletedVoyage),
+            });
+          });
+
+          res.status(204).end();
+        }),
+      ),
+    ),
+  ),
+});
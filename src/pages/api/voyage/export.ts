@@ -0,0 +1,240 @@
+import { once } from "events";
+import ExcelJS from "exceljs";
+import { format } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { toCsvRow } from "~/server/csv";
+import {
+  type VoyageWithUtilization,
+  toVoyageListOrderBy,
+  toVoyageListWhere,
+  voyageInclude,
+  withUtilization,
+} from "~/server/voyage";
+import {
+  type VoyageExportQuery,
+  voyageExportQuerySchema,
+} from "~/schemas/voyage";
+
+export const config = {
+  api: { responseLimit: false },
+};
+
+/** Number of voyages read from the database at a time. */
+const BATCH_SIZE = 500;
+
+/** Local time at the port, with its UTC offset. */
+const EXPORT_DATE_FORMAT = "yyyy-MM-dd HH:mm xxx";
+
+const contentTypes = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const columns = [
+  "Departure",
+  "Arrival",
+  "Port of loading",
+  "Port of discharge",
+  "Vessel",
+  "Unit types",
+  "Bookings",
+  "Booked lane meters",
+  "Capacity lane meters",
+];
+
+function toRow(voyage: VoyageWithUtilization): (string | number)[] {
+  return [
+    formatInTimeZone(
+      voyage.scheduledDeparture,
+      voyage.portOfLoading.timezone,
+      EXPORT_DATE_FORMAT,
+    ),
+    formatInTimeZone(
+      voyage.scheduledArrival,
+      voyage.portOfDischarge.timezone,
+      EXPORT_DATE_FORMAT,
+    ),
+    `${voyage.portOfLoading.name} (${voyage.portOfLoading.id})`,
+    `${voyage.portOfDischarge.name} (${voyage.portOfDischarge.id})`,
+    voyage.vessel.name,
+    voyage.unitTypes.map(({ name }) => name).join("; "),
+    voyage.utilization.bookingCount,
+    voyage.utilization.bookedLaneMeters,
+    voyage.utilization.capacityLaneMeters,
+  ];
+}
+
+/** Reads the next batch of voyages matching the query, after `cursor`. */
+function readBatch(query: VoyageExportQuery, cursor?: string) {
+  return prisma.voyage.findMany({
+    where: toVoyageListWhere(query),
+    include: voyageInclude,
+    orderBy: toVoyageListOrderBy(query),
+    take: BATCH_SIZE,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  });
+}
+
+/**
+ * Turns the voyages matching the query into rows, starting from the already
+ * read `voyages` and reading the rest one batch at a time, so an export never
+ * holds more than `BATCH_SIZE` voyages in memory.
+ */
+async function* exportRows(
+  query: VoyageExportQuery,
+  voyages: Awaited<ReturnType<typeof readBatch>>,
+) {
+  for (;;) {
+    for (const voyage of voyages) {
+      yield toRow(withUtilization(voyage));
+    }
+
+    if (voyages.length < BATCH_SIZE) {
+      return;
+    }
+
+    voyages = await readBatch(query, voyages[voyages.length - 1]!.id);
+  }
+}
+
+/**
+ * @swagger
+ * /api/voyage/export:
+ *   get:
+ *     tags:
+ *       - Voyage
+ *     summary: Exports voyages
+ *     description: Downloads all voyages matching the filters and sort order of `/api/voyage/getAll` as a CSV or Excel file. Rows are streamed, so large exports start right away. When reading fails after the download has started, the connection is closed without finishing the file.
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [departure, arrival, portOfLoading, portOfDischarge, vessel, unitTypes]
+ *           default: departure
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: vesselId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfLoading
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfDischarge
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: departureFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: departureTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: unitTypeId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: unitGroupId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [planned, openForBooking, closed, departed, arrived, cancelled]
+ *     responses:
+ *       200:
+ *         description: The exported voyages, one row per voyage.
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid query parameters. The body lists the offending parameters.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: voyageExportQuerySchema },
+      async (req, res, { query }) => {
+        // Read before anything is sent, so a failing query still gets an
+        // error response instead of an empty file.
+        const firstBatch = await readBatch(query);
+        const filename = `voyages-${format(new Date(), "yyyyMMdd-HHmm")}.${query.format}`;
+
+        res.status(200);
+        res.setHeader("Content-Type", contentTypes[query.format]);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}"`,
+        );
+
+        // Once rows are sent the status cannot change anymore. Aborting the
+        // response makes the download fail instead of ending in a file that
+        // looks complete but misses rows.
+        try {
+          if (query.format === "csv") {
+            res.write(toCsvRow(columns));
+            for await (const row of exportRows(query, firstBatch)) {
+              if (!res.write(toCsvRow(row))) {
+                await once(res, "drain");
+              }
+            }
+            res.end();
+            return;
+          }
+
+          const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+            stream: res,
+          });
+          const worksheet = workbook.addWorksheet("Voyages");
+          worksheet.columns = columns.map((header) => ({ header, width: 20 }));
+          for await (const row of exportRows(query, firstBatch)) {
+            worksheet.addRow(row).commit();
+          }
+          worksheet.commit();
+          await workbook.commit();
+        } catch (error) {
+          console.error(error);
+          res.destroy(error instanceof Error ? error : undefined);
+        }
+      },
+    ),
+  ),
+});
@@ -1,10 +1,23 @@
-import type { Vessel, Voyage, UnitType } from "@prisma/client";
-import type { NextApiHandler, NextApiResponse } from "next";
+import type { NextApiResponse } from "next";
 import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import {
+  type VoyageWithUtilization,
+  toVoyageListOrderBy,
+  toVoyageListWhere,
+  voyageInclude,
+  withUtilization,
+} from "~/server/voyage";
+import { voyageListQuerySchema } from "~/schemas/voyage";
 
-export type ReturnType = (Voyage & { vessel: Vessel } & {
-  unitTypes: UnitType[];
-})[];
+export type VoyageListItem = VoyageWithUtilization;
+
+export type ReturnType = {
+  items: VoyageListItem[];
+  total: number;
+  nextCursor: string | null;
+};
 
 /**
  * @swagger
@@ -12,78 +25,220 @@ export type ReturnType = (Voyage & { vessel: Vessel } & {
  *   get:
  *     tags:
  *       - Voyage
- *     summary: Retrieves all voyages
- *     description: Returns a list of all voyages, including details about the vessel and unit types associated with each voyage.
+ *     summary: Retrieves voyages
+ *     description: Returns a page of voyages, including details about the vessel and unit types associated with each voyage. Voyages can be filtered and sorted; pages are fetched by passing the returned `nextCursor` as `cursor`.
+ *     parameters:
+ *       - in: query
+ *         name: cursor
+ *         description: The `nextCursor` of the previous page.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         description: Number of voyages per page.
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [departure, arrival, portOfLoading, portOfDischarge, vessel, unitTypes]
+ *           default: departure
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: vesselId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfLoading
+ *         description: UN/LOCODE of the port of loading.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: portOfDischarge
+ *         description: UN/LOCODE of the port of discharge.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: departureFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: departureTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: unitTypeId
+ *         description: Only voyages accepting the given unit type.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: unitGroupId
+ *         description: Only voyages accepting at least one unit type of the given group.
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeDeleted
+ *         description: Also return deleted voyages.
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: status
+ *         description: Only voyages with this status.
+ *         schema:
+ *           type: string
+ *           enum: [planned, openForBooking, closed, departed, arrived, cancelled]
  *     responses:
  *       200:
- *         description: A list of voyages with their associated vessel and unit types.
+ *         description: A page of voyages with their associated vessel and unit types.
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   id:
- *                     type: string
- *                   portOfLoading:
- *                     type: string
- *                   portOfDischarge:
- *                     type: string
- *                   vesselId:
- *                     type: string
- *                   scheduledDeparture:
- *                     type: string
- *                     format: date-time
- *                   scheduledArrival:
- *                     type: string
- *                     format: date-time
- *                   createdAt:
- *                     type: string
- *                     format: date-time
- *                   updatedAt:
- *                     type: string
- *                     format: date-time
- *                   vessel:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: integer
+ *                   description: Number of voyages matching the filters.
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor of the next page, or null on the last page.
+ *                 items:
+ *                   type: array
+ *                   items:
  *                     type: object
  *                     properties:
  *                       id:
  *                         type: string
- *                       name:
+ *                       portOfLoadingId:
+ *                         type: string
+ *                       portOfDischargeId:
+ *                         type: string
+ *                       portOfLoading:
+ *                         $ref: '#/components/schemas/Port'
+ *                       portOfDischarge:
+ *                         $ref: '#/components/schemas/Port'
+ *                       vesselId:
+ *                         type: string
+ *                       scheduledDeparture:
+ *                         type: string
+ *                         format: date-time
+ *                       scheduledArrival:
  *                         type: string
+ *                         format: date-time
  *                       createdAt:
  *                         type: string
  *                         format: date-time
  *                       updatedAt:
  *                         type: string
  *                         format: date-time
- *                   unitTypes:
- *                     type: array
- *                     items:
- *                       type: object
- *                       properties:
- *                         id:
- *                           type: string
- *                         name:
- *                           type: string
- *                         defaultLength:
- *                           type: number
- *                         createdAt:
- *                           type: string
- *                           format: date-time
- *                         updatedAt:
- *                           type: string
- *                           format: date-time
+ *                       deletedAt:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       status:
+ *                         type: string
+ *                         enum: [planned, openForBooking, closed, departed, arrived, cancelled]
+ *                       cancellationReason:
+ *                         type: string
+ *                         nullable: true
+ *                       estimatedDeparture:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       estimatedArrival:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       actualDeparture:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       actualArrival:
+ *                         type: string
+ *                         format: date-time
+ *                         nullable: true
+ *                       vessel:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           laneMeterCapacity:
+ *                             type: number
+ *                           createdAt:
+ *                             type: string
+ *                             format: date-time
+ *                           updatedAt:
+ *                             type: string
+ *                             format: date-time
+ *                       unitTypes:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             id:
+ *                               type: string
+ *                             name:
+ *                               type: string
+ *                             defaultLength:
+ *                               type: number
+ *                             createdAt:
+ *                               type: string
+ *                               format: date-time
+ *                             updatedAt:
+ *                               type: string
+ *                               format: date-time
+ *                       utilization:
+ *                         $ref: '#/components/schemas/Utilization'
+ *       400:
+ *         description: Invalid query parameters. The body lists the offending parameters.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
  */
-const handler: NextApiHandler = async (_, res: NextApiResponse<ReturnType>) => {
-  const voyages = await prisma.voyage.findMany({
-    include: {
-      vessel: {},
-      unitTypes: {},
-    },
-  });
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: voyageListQuerySchema },
+      async (req, res: NextApiResponse<ReturnType>, { query }) => {
+        const where = toVoyageListWhere(query);
 
-  res.status(200).json(voyages);
-};
+        // Fetch one extra voyage to find out whether there is a next page.
+        const [voyages, total] = await prisma.$transaction([
+          prisma.voyage.findMany({
+            where,
+            include: voyageInclude,
+            orderBy: toVoyageListOrderBy(query),
+            take: query.limit + 1,
+            ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+          }),
+          prisma.voyage.count({ where }),
+        ]);
+
+        const hasNextPage = voyages.length > query.limit;
+        const items = hasNextPage ? voyages.slice(0, query.limit) : voyages;
 
-export default handler;
+        res.status(200).json({
+          items: items.map(withUtilization),
+          total,
+          nextCursor: hasNextPage ? items[items.length - 1]!.id : null,
+        });
+      },
+    ),
+  ),
+});
@@ -0,0 +1,52 @@
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { type AuditEntry, toAuditEntry } from "~/server/audit";
+import { idQuerySchema } from "~/schemas/api";
+
+export type VoyageHistory = AuditEntry[];
+
+/**
+ * @swagger
+ * /api/voyage/history/{id}:
+ *   get:
+ *     tags:
+ *       - Voyage
+ *     summary: Retrieves the change history of a voyage
+ *     description: Returns the audit entries of a voyage, newest first. Entries are kept after the voyage is deleted.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The audit entries of the voyage.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditEntry'
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: idQuerySchema },
+      async (req, res: NextApiResponse<VoyageHistory>, { query }) => {
+        const entries = await prisma.voyageAuditEntry.findMany({
+          where: { voyageId: query.id },
+          orderBy: { createdAt: "desc" },
+        });
+
+        res.status(200).json(entries.map(toAuditEntry));
+      },
+    ),
+  ),
+});
@@ -0,0 +1,301 @@
+import type { Prisma } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { fromZonedTime } from "date-fns-tz";
+import { prisma } from "~/server/db";
+import { createApiHandler, validationFailed, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import { parseCsv } from "~/server/csv";
+import {
+  findScheduleConflicts,
+  validateVoyageReferences,
+} from "~/server/voyage";
+import { type ValidationIssue, toValidationIssues } from "~/schemas/api";
+import { voyageImportSchema, voyageSchema } from "~/schemas/voyage";
+
+export const config = {
+  api: { bodyParser: { sizeLimit: "2mb" } },
+};
+
+const MAX_ROWS = 1000;
+
+const columns = [
+  "departure",
+  "arrival",
+  "portOfLoading",
+  "portOfDischarge",
+  "vessel",
+  "unitTypes",
+] as const;
+
+type Column = (typeof columns)[number];
+
+/** Header names accepted for each column, compared without case or spaces. */
+const columnAliases: Record<Column, string[]> = {
+  departure: ["departure", "scheduleddeparture"],
+  arrival: ["arrival", "scheduledarrival"],
+  portOfLoading: ["portofloading", "pol"],
+  portOfDischarge: ["portofdischarge", "pod"],
+  vessel: ["vessel", "vesselname"],
+  unitTypes: ["unittypes", "unittypeids"],
+};
+
+export type ImportRow = Record<Column, string> & {
+  /** Position of the row in the file, not counting the header. */
+  row: number;
+  issues: ValidationIssue[];
+};
+
+export type ImportReport = {
+  rows: ImportRow[];
+  valid: number;
+  imported: number;
+};
+
+/** Thrown to roll back the import transaction of a dry run. */
+class DryRunRollback extends Error {}
+
+const normalize = (header: string) =>
+  header.toLowerCase().replace(/[^a-z]/g, "");
+
+/** Matches date-times that end in `Z` or a UTC offset such as `+02:00`. */
+const UTC_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+/**
+ * Reads a departure or arrival of the file. Values without a UTC offset are
+ * local time at the port, as on the voyage form. With an unknown port the
+ * value is passed on as is, the reference check reports the port.
+ */
+function toImportDate(value: string, timeZone: string | undefined) {
+  return timeZone && !UTC_OFFSET.test(value)
+    ? fromZonedTime(value, timeZone)
+    : value;
+}
+
+/**
+ * Validates a row like the create form and, when it passes, creates the
+ * voyage so the following rows are checked against it.
+ */
+async function importRow(
+  tx: Prisma.TransactionClient,
+  row: ImportRow,
+  vesselIds: Map<string, string>,
+  timeZones: Map<string, string>,
+  actor: string,
+): Promise<ValidationIssue[]> {
+  const parsed = voyageSchema.safeParse({
+    departure: toImportDate(row.departure, timeZones.get(row.portOfLoading)),
+    arrival: toImportDate(row.arrival, timeZones.get(row.portOfDischarge)),
+    portOfLoading: row.portOfLoading,
+    portOfDischarge: row.portOfDischarge,
+    // Unknown names are passed on so the reference check reports them.
+    vessel: vesselIds.get(row.vessel.toLowerCase()) ?? row.vessel,
+    unitTypes: row.unitTypes.split(/[;|\s]+/).filter(Boolean),
+  });
+
+  if (!parsed.success) {
+    return toValidationIssues(parsed.error);
+  }
+
+  const issues = await validateVoyageReferences(parsed.data, tx);
+
+  if (issues.length) {
+    return issues;
+  }
+
+  const conflicts = await findScheduleConflicts(parsed.data, undefined, tx);
+
+  if (conflicts.length) {
+    return conflicts.map(({ message }) => ({ path: "departure", message }));
+  }
+
+  const {
+    departure,
+    arrival,
+    portOfLoading,
+    portOfDischarge,
+    vessel,
+    unitTypes,
+  } = parsed.data;
+
+  const voyage = await tx.voyage.create({
+    data: {
+      scheduledDeparture: departure,
+      scheduledArrival: arrival,
+      portOfLoadingId: portOfLoading,
+      portOfDischargeId: portOfDischarge,
+      vesselId: vessel,
+      unitTypes: {
+        connect: unitTypes.map((id) => ({ id })),
+      },
+    },
+    include: { unitTypes: true },
+  });
+  await recordVoyageAudit(tx, {
+    voyageId: voyage.id,
+    action: "create",
+    actor,
+    before: null,
+    after: toSnapshot(voyage),
+  });
+
+  return [];
+}
+
+/**
+ * @swagger
+ * /api/voyage/import:
+ *   post:
+ *     tags:
+ *       - Voyage
+ *     summary: Imports voyages from CSV
+ *     description: |
+ *       Checks every row of a CSV file with the same rules as `/api/voyage/create` and creates the voyages of the valid rows in one transaction. Invalid rows are skipped. With `dryRun` (the default) nothing is saved and the report shows what an import would do.
+ *
+ *       The header row names the columns, in any order: `departure`, `arrival` (ISO 8601, local time at the port unless a UTC offset is given), `portOfLoading`, `portOfDischarge` (UN/LOCODE), `vessel` (vessel name) and `unitTypes` (unit type IDs separated by `;`).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - csv
+ *             properties:
+ *               csv:
+ *                 type: string
+ *                 description: Contents of the CSV file.
+ *               dryRun:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: The row-by-row report.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 valid:
+ *                   type: integer
+ *                   description: Number of rows without issues.
+ *                 imported:
+ *                   type: integer
+ *                   description: Number of voyages created, always 0 on a dry run.
+ *                 rows:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       row:
+ *                         type: integer
+ *                       issues:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             path:
+ *                               type: string
+ *                             message:
+ *                               type: string
+ *       400:
+ *         description: The file cannot be read, e.g. a column is missing. The body lists the issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method not allowed, indicates that the request method is not supported by the endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput(
+        { body: voyageImportSchema },
+        async (req, res: NextApiResponse<ImportReport>, { body }) => {
+          const [header = [], ...lines] = parseCsv(body.csv);
+          const headers = header.map(normalize);
+          const indexes = columns.map((column) =>
+            headers.findIndex((name) => columnAliases[column].includes(name)),
+          );
+          const issues: ValidationIssue[] = columns
+            .filter((_, position) => indexes[position] === -1)
+            .map((column) => ({
+              path: "csv",
+              message: `Missing column: ${column}.`,
+            }));
+
+          if (lines.length > MAX_ROWS) {
+            issues.push({
+              path: "csv",
+              message: `A file can contain at most ${MAX_ROWS} voyages.`,
+            });
+          }
+
+          if (issues.length) {
+            throw validationFailed(issues);
+          }
+
+          const rows: ImportRow[] = lines.map((cells, index) => ({
+            ...(Object.fromEntries(
+              columns.map((column, position) => [
+                column,
+                cells[indexes[position]!]?.trim() ?? "",
+              ]),
+            ) as Record<Column, string>),
+            row: index + 1,
+            issues: [],
+          }));
+
+          const vessels = await prisma.vessel.findMany();
+          const vesselIds = new Map(
+            vessels.map((vessel) => [vessel.name.toLowerCase(), vessel.id]),
+          );
+          const ports = await prisma.port.findMany();
+          const timeZones = new Map(
+            ports.map((port) => [port.id, port.timezone]),
+          );
+          const actor = getActor(req);
+
+          // Rows are imported in a transaction that a dry run rolls back, so both
+          // check later rows against the voyages of earlier ones.
+          try {
+            await prisma.$transaction(
+              async (tx) => {
+                for (const row of rows) {
+                  row.issues = await importRow(
+                    tx,
+                    row,
+                    vesselIds,
+                    timeZones,
+                    actor,
+                  );
+                }
+                if (body.dryRun) {
+                  throw new DryRunRollback();
+                }
+              },
+              { timeout: 60000 },
+            );
+          } catch (error) {
+            if (!(error instanceof DryRunRollback)) {
+              throw error;
+            }
+          }
+
+          const valid = rows.filter((row) => row.issues.length === 0).length;
+
+          res.status(200).json({
+            rows,
+            valid,
+            imported: body.dryRun ? 0 : valid,
+          });
+        },
+      ),
+    ),
+  ),
+});
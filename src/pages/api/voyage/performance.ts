@@ -0,0 +1,153 @@
+import type { Port } from "@prisma/client";
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { voyagePerformanceQuerySchema } from "~/schemas/voyage";
+import { getDelayMinutes, getPunctuality } from "~/utils";
+
+export type RoutePerformance = {
+  portOfLoading: Pick<Port, "id" | "name">;
+  portOfDischarge: Pick<Port, "id" | "name">;
+  /** Voyages of the route that have arrived, the basis of the figures. */
+  voyages: number;
+  onTime: number;
+  delayed: number;
+  early: number;
+  onTimePercentage: number;
+  averageDelayMinutes: number;
+};
+
+export type VoyagePerformance = {
+  routes: RoutePerformance[];
+};
+
+/**
+ * @swagger
+ * /api/voyage/performance:
+ *   get:
+ *     tags:
+ *       - Voyage
+ *     summary: On-time performance per route
+ *     description: Compares the actual arrival of every voyage that departed in the period with its scheduled arrival, and sums up the results per route. Voyages without a reported actual arrival, deleted and cancelled voyages are left out.
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: The routes, busiest first.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 routes:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       portOfLoading:
+ *                         $ref: '#/components/schemas/Port'
+ *                       portOfDischarge:
+ *                         $ref: '#/components/schemas/Port'
+ *                       voyages:
+ *                         type: integer
+ *                       onTime:
+ *                         type: integer
+ *                       delayed:
+ *                         type: integer
+ *                       early:
+ *                         type: integer
+ *                       onTimePercentage:
+ *                         type: number
+ *                       averageDelayMinutes:
+ *                         type: number
+ *       400:
+ *         description: Invalid query parameters. The body lists the offending parameters.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       405:
+ *         description: Method Not Allowed. Only GET method is supported on this endpoint.
+ */
+export default createApiHandler({
+  GET: withRole(
+    "viewer",
+    withInput(
+      { query: voyagePerformanceQuerySchema },
+      async (req, res: NextApiResponse<VoyagePerformance>, { query }) => {
+        const voyages = await prisma.voyage.findMany({
+          where: {
+            deletedAt: null,
+            status: { not: "cancelled" },
+            actualArrival: { not: null },
+            scheduledDeparture: { gte: query.from, lte: query.to },
+          },
+          include: { portOfLoading: true, portOfDischarge: true },
+        });
+
+        const routes = new Map<
+          string,
+          RoutePerformance & { totalDelay: number }
+        >();
+
+        voyages.forEach((voyage) => {
+          const key = `${voyage.portOfLoadingId}-${voyage.portOfDischargeId}`;
+          const route = routes.get(key) ?? {
+            portOfLoading: voyage.portOfLoading,
+            portOfDischarge: voyage.portOfDischarge,
+            voyages: 0,
+            onTime: 0,
+            delayed: 0,
+            early: 0,
+            onTimePercentage: 0,
+            averageDelayMinutes: 0,
+            totalDelay: 0,
+          };
+          const delay =
+            getDelayMinutes(
+              voyage.scheduledArrival,
+              voyage.actualArrival,
+              null,
+            ) ?? 0;
+
+          route.voyages++;
+          route[getPunctuality(delay)]++;
+          route.totalDelay += delay;
+          routes.set(key, route);
+        });
+
+        res.status(200).json({
+          routes: [...routes.values()]
+            .map(
+              ({ totalDelay, portOfLoading, portOfDischarge, ...route }) => ({
+                ...route,
+                portOfLoading: {
+                  id: portOfLoading.id,
+                  name: portOfLoading.name,
+                },
+                portOfDischarge: {
+                  id: portOfDischarge.id,
+                  name: portOfDischarge.name,
+                },
+                onTimePercentage: (route.onTime / route.voyages) * 100,
+                averageDelayMinutes: totalDelay / route.voyages,
+              }),
+            )
+            .sort((a, b) => b.voyages - a.voyages),
+        });
+      },
+    ),
+  ),
+});
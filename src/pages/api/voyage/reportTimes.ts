@@ -0,0 +1,128 @@
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import {
+  type VoyageWithUtilization,
+  voyageInclude,
+  withUtilization,
+} from "~/server/voyage";
+import { idQuerySchema } from "~/schemas/api";
+import { voyageTimesSchema } from "~/schemas/voyage";
+
+export type ReportedVoyage = VoyageWithUtilization;
+
+/**
+ * @swagger
+ * /api/voyage/reportTimes/{id}:
+ *   post:
+ *     tags:
+ *       - Voyage
+ *     summary: Reports estimated and actual times of a voyage
+ *     description: Records the estimated and actual departure and arrival of a voyage, from which its delay is computed. Times that are left out keep their value, and `null` clears a time. The scheduled times do not change.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               estimatedDeparture:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               estimatedArrival:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               actualDeparture:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               actualArrival:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: The voyage with its reported times.
+ *       400:
+ *         description: Invalid times, e.g. an arrival before the departure. The body lists the offending fields.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Voyage with the specified ID not found.
+ *       409:
+ *         description: The voyage is cancelled.
+ *       405:
+ *         description: Method Not Allowed. Only POST method is supported on this endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput(
+        { query: idQuerySchema, body: voyageTimesSchema },
+        async (req, res: NextApiResponse<ReportedVoyage>, { query, body }) => {
+          const current = await prisma.voyage.findFirst({
+            where: { id: query.id, deletedAt: null },
+            include: { unitTypes: true },
+          });
+
+          if (!current) {
+            throw new ApiError("notFound", "The voyage was not found.");
+          }
+
+          if (current.status === "cancelled") {
+            throw new ApiError(
+              "conflict",
+              "Times cannot be reported for a cancelled voyage.",
+            );
+          }
+
+          // The rules between times also hold against the times reported earlier.
+          const merged = voyageTimesSchema.parse({
+            estimatedDeparture: current.estimatedDeparture,
+            estimatedArrival: current.estimatedArrival,
+            actualDeparture: current.actualDeparture,
+            actualArrival: current.actualArrival,
+            ...body,
+          });
+
+          const updatedVoyage = await prisma.$transaction(async (tx) => {
+            const voyage = await tx.voyage.update({
+              where: { id: current.id },
+              data: merged,
+              include: voyageInclude,
+            });
+
+            await recordVoyageAudit(tx, {
+              voyageId: voyage.id,
+              action: "times",
+              actor: getActor(req),
+              before: toSnapshot(current),
+              after: toSnapshot(voyage),
+            });
+
+            return voyage;
+          });
+
+          res.status(200).json(withUtilization(updatedVoyage));
+        },
+      ),
+    ),
+  ),
+});
@@ -0,0 +1,95 @@
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import { findScheduleConflicts, scheduleConflict } from "~/server/voyage";
+import { idQuerySchema } from "~/schemas/api";
+
+/**
+ * @swagger
+ * /api/voyage/restore/{id}:
+ *   post:
+ *     tags:
+ *       - Voyage
+ *     summary: Restores a deleted voyage
+ *     description: Brings back a voyage that was deleted with `/api/voyage/delete`, unless another voyage of the vessel has taken its slot in the meantime.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage to restore.
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: The voyage was restored.
+ *       404:
+ *         description: No deleted voyage with the specified ID was found.
+ *       409:
+ *         description: The voyage conflicts with voyages scheduled since it was deleted. The body lists the conflicting voyages.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleConflict'
+ *       405:
+ *         description: Method Not Allowed. Only POST method is supported on this endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput({ query: idQuerySchema }, async (req, res, { query }) => {
+        const voyage = await prisma.voyage.findFirst({
+          where: {
+            id: query.id,
+            deletedAt: { not: null },
+          },
+          include: { unitTypes: true },
+        });
+
+        if (!voyage) {
+          throw new ApiError(
+            "notFound",
+            "No deleted voyage with this ID was found.",
+          );
+        }
+
+        const conflicts = await findScheduleConflicts(
+          {
+            departure: voyage.scheduledDeparture,
+            arrival: voyage.scheduledArrival,
+            portOfLoading: voyage.portOfLoadingId,
+            portOfDischarge: voyage.portOfDischargeId,
+            vessel: voyage.vesselId,
+          },
+          voyage.id,
+        );
+
+        if (conflicts.length) {
+          throw scheduleConflict(conflicts);
+        }
+
+        await prisma.$transaction(async (tx) => {
+          const restoredVoyage = await tx.voyage.update({
+            where: { id: voyage.id },
+            data: { deletedAt: null },
+            include: { unitTypes: true },
+          });
+
+          await recordVoyageAudit(tx, {
+            voyageId: voyage.id,
+            action: "restore",
+            actor: getActor(req),
+            before: toSnapshot(voyage),
+            after: toSnapshot(restoredVoyage),
+          });
+        });
+
+        res.status(204).end();
+      }),
+    ),
+  ),
+});
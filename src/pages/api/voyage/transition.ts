@@ -0,0 +1,129 @@
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import { ApiError, createApiHandler, withInput } from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import {
+  type VoyageWithUtilization,
+  voyageInclude,
+  withUtilization,
+} from "~/server/voyage";
+import { idQuerySchema } from "~/schemas/api";
+import {
+  type VoyageStatus,
+  voyageTransitionSchema,
+  voyageTransitions,
+} from "~/schemas/voyage";
+
+export type TransitionedVoyage = VoyageWithUtilization;
+
+/**
+ * @swagger
+ * /api/voyage/transition/{id}:
+ *   post:
+ *     tags:
+ *       - Voyage
+ *     summary: Changes the status of a voyage
+ *     description: |
+ *       Moves a voyage along its lifecycle: `planned` → `openForBooking` → `closed` → `departed` → `arrived`. A closed voyage can be opened for booking again, and any voyage that has not departed can be `cancelled`, which requires a reason. Arrived and cancelled voyages are final.
+ *
+ *       Voyages that have departed can no longer be edited or deleted.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [planned, openForBooking, closed, departed, arrived, cancelled]
+ *               reason:
+ *                 type: string
+ *                 description: Why the voyage is cancelled. Required with the `cancelled` status.
+ *     responses:
+ *       200:
+ *         description: The voyage with its new status.
+ *       400:
+ *         description: Invalid request body. The body lists the offending fields.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: Voyage with the specified ID not found.
+ *       409:
+ *         description: The voyage cannot move from its current status to the requested one.
+ *       405:
+ *         description: Method Not Allowed. Only POST method is supported on this endpoint.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  POST: withRole(
+    "planner",
+    withRateLimit(
+      withInput(
+        { query: idQuerySchema, body: voyageTransitionSchema },
+        async (
+          req,
+          res: NextApiResponse<TransitionedVoyage>,
+          { query, body },
+        ) => {
+          const current = await prisma.voyage.findFirst({
+            where: { id: query.id, deletedAt: null },
+            include: { unitTypes: true },
+          });
+
+          if (!current) {
+            throw new ApiError("notFound", "The voyage was not found.");
+          }
+
+          const { status, reason } = body;
+
+          if (
+            !voyageTransitions[current.status as VoyageStatus]?.includes(status)
+          ) {
+            throw new ApiError(
+              "conflict",
+              `A voyage cannot move from ${current.status} to ${status}.`,
+            );
+          }
+
+          const updatedVoyage = await prisma.$transaction(async (tx) => {
+            const voyage = await tx.voyage.update({
+              where: { id: current.id },
+              data: {
+                status,
+                cancellationReason: status === "cancelled" ? reason : null,
+              },
+              include: voyageInclude,
+            });
+
+            await recordVoyageAudit(tx, {
+              voyageId: voyage.id,
+              action: "status",
+              actor: getActor(req),
+              before: toSnapshot(current),
+              after: toSnapshot(voyage),
+            });
+
+            return voyage;
+          });
+
+          res.status(200).json(withUtilization(updatedVoyage));
+        },
+      ),
+    ),
+  ),
+});
@@ -0,0 +1,205 @@
+import type { NextApiResponse } from "next";
+import { prisma } from "~/server/db";
+import {
+  ApiError,
+  createApiHandler,
+  validationFailed,
+  withInput,
+} from "~/server/api";
+import { withRole } from "~/server/auth";
+import { withIdempotency } from "~/server/idempotency";
+import { withRateLimit } from "~/server/rateLimit";
+import { getActor, recordVoyageAudit, toSnapshot } from "~/server/audit";
+import {
+  type VoyageWithUtilization,
+  findScheduleConflicts,
+  mergeVoyage,
+  scheduleConflict,
+  validateBookedUnitTypes,
+  validateVoyageReferences,
+  voyageInclude,
+  withUtilization,
+} from "~/server/voyage";
+import { idQuerySchema } from "~/schemas/api";
+import {
+  hasDeparted,
+  voyageSchema,
+  voyageUpdateSchema,
+} from "~/schemas/voyage";
+
+export type UpdatedVoyage = VoyageWithUtilization;
+
+/**
+ * @swagger
+ * /api/voyage/update/{id}:
+ *   patch:
+ *     tags:
+ *       - Voyage
+ *     summary: Updates a voyage
+ *     description: Applies partial changes to an existing voyage. Omitted fields are left unchanged. The resulting voyage must satisfy the same rules as on creation.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: The ID of the voyage to update.
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               departure:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Scheduled departure date and time.
+ *               arrival:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Scheduled arrival date and time.
+ *               portOfLoading:
+ *                 type: string
+ *                 description: UN/LOCODE of the port where the voyage starts.
+ *               portOfDischarge:
+ *                 type: string
+ *                 description: UN/LOCODE of the port where the voyage ends.
+ *               vessel:
+ *                 type: string
+ *                 description: ID of the vessel used for the voyage.
+ *               unitTypes:
+ *                 type: object
+ *                 description: Changes to the unit types of the voyage. `set` replaces the current list, `connect` and `disconnect` add and remove unit type IDs.
+ *                 properties:
+ *                   set:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   connect:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   disconnect:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: The updated voyage, including its vessel, ports and unit types.
+ *       400:
+ *         description: Validation failed. The body lists the field-level issues.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ValidationError'
+ *       404:
+ *         description: The voyage with the specified ID was not found.
+ *       409:
+ *         description: The vessel is already scheduled on a conflicting voyage, and the body lists the conflicting voyages. Also returned, with only a message, when the voyage has departed.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduleConflict'
+ *       405:
+ *         description: Method Not Allowed. Only PATCH method is supported on this endpoint.
+ *       422:
+ *         description: The Idempotency-Key was already used for another request.
+ *       429:
+ *         $ref: '#/components/responses/TooManyRequests'
+ */
+export default createApiHandler({
+  PATCH: withRole(
+    "planner",
+    withRateLimit(
+      withIdempotency(
+        withInput(
+          { query: idQuerySchema, body: voyageUpdateSchema },
+          async (req, res: NextApiResponse<UpdatedVoyage>, { query, body }) => {
+            const current = await prisma.voyage.findFirst({
+              where: { id: query.id, deletedAt: null },
+              include: {
+                unitTypes: {},
+                bookings: {
+                  where: { cancelledAt: null },
+                  select: { unitTypeId: true },
+                },
+              },
+            });
+
+            if (!current) {
+              throw new ApiError("notFound", "The voyage was not found.");
+            }
+
+            if (hasDeparted(current.status)) {
+              throw new ApiError(
+                "conflict",
+                "Voyages that have departed cannot be changed.",
+              );
+            }
+
+            const merged = voyageSchema.parse(mergeVoyage(current, body));
+
+            const issues = [
+              ...(await validateVoyageReferences(
+                merged,
+                prisma,
+                current.unitTypes.map(({ id }) => id),
+              )),
+              ...validateBookedUnitTypes(current.bookings, merged.unitTypes),
+            ];
+
+            if (issues.length) {
+              throw validationFailed(issues);
+            }
+
+            const conflicts = await findScheduleConflicts(merged, current.id);
+
+            if (conflicts.length) {
+              throw scheduleConflict(conflicts);
+            }
+
+            const {
+              departure,
+              arrival,
+              portOfLoading,
+              portOfDischarge,
+              vessel,
+              unitTypes,
+            } = merged;
+
+            const updatedVoyage = await prisma.$transaction(async (tx) => {
+              const voyage = await tx.voyage.update({
+                where: { id: current.id },
+                data: {
+                  scheduledDeparture: departure,
+                  scheduledArrival: arrival,
+                  portOfLoadingId: portOfLoading,
+                  portOfDischargeId: portOfDischarge,
+                  vesselId: vessel,
+                  unitTypes: {
+                    set: unitTypes.map((id) => ({ id })),
+                  },
+                },
+                include: voyageInclude,
+              });
+
+              await recordVoyageAudit(tx, {
+                voyageId: voyage.id,
+                action: "update",
+                actor: getActor(req),
+                before: toSnapshot(current),
+                after: toSnapshot(voyage),
+              });
+
+              return voyage;
+            });
+
+            res.status(200).json(withUtilization(updatedVoyage));
+          },
+        ),
+      ),
+    ),
+  ),
+});
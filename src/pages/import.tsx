@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import Head from "next/head";
+import Layout from "~/components/layout";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import type { ValidationIssue } from "~/schemas/api";
+import { cn, readValidationError } from "~/utils";
+import type { ImportReport } from "./api/voyage/import";
+
+export default function Import() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [csv, setCsv] = useState("");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [fileIssues, setFileIssues] = useState<ValidationIssue[]>([]);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      setFileIssues([]);
+      const response = await fetch(`/api/voyage/import`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ csv, dryRun }),
+      });
+
+      if (response.status === 400) {
+        const { issues, message } = await readValidationError(response);
+        setFileIssues(issues.length ? issues : [{ path: "csv", message }]);
+        throw new Error("File failed server validation");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not import voyages.",
+          description: `A problem occured while attempting to import voyages.`,
+        });
+        throw new Error("Failed to import the voyages");
+      }
+
+      return (await response.json()) as ImportReport;
+    },
+    onSuccess: async (result, dryRun) => {
+      if (dryRun) {
+        setReport(result);
+        return;
+      }
+      toast({
+        variant: "default",
+        description: `${result.imported} voyages succesfully imported.`,
+      });
+      setCsv("");
+      setReport(null);
+      await queryClient.invalidateQueries({ queryKey: ["voyages"] });
+    },
+  });
+
+  const chooseFile = async (file: File | undefined) => {
+    setReport(null);
+    setFileIssues([]);
+    setCsv(file ? await file.text() : "");
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Import | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout role="planner">
+        <div className="flex w-full flex-col space-y-6 py-6">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Import voyages</h1>
+            <p className="text-sm text-muted-foreground">
+              The first row names the columns: departure, arrival (e.g.
+              2024-06-01T15:00), portOfLoading, portOfDischarge (UN/LOCODE),
+              vessel (name) and unitTypes (IDs separated by semicolons). Times
+              without a UTC offset are local time at the port of loading for the
+              departure and at the port of discharge for the arrival.
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              className="w-96"
+              onChange={(event) => void chooseFile(event.target.files?.[0])}
+            />
+            <Button
+              variant="outline"
+              disabled={!csv}
+              onClick={() => importMutation.mutate(true)}
+            >
+              Check file
+            </Button>
+            {report && (
+              <Button
+                disabled={report.valid === 0}
+                onClick={() => importMutation.mutate(false)}
+              >
+                Import {report.valid} valid rows
+              </Button>
+            )}
+          </div>
+          {fileIssues.length > 0 && (
+            <ul className="space-y-1 text-sm text-destructive">
+              {fileIssues.map((issue) => (
+                <li key={issue.message}>{issue.message}</li>
+              ))}
+            </ul>
+          )}
+          {report && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {report.valid} of {report.rows.length} rows are valid. Invalid
+                rows are skipped.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Departure</TableHead>
+                    <TableHead>Arrival</TableHead>
+                    <TableHead>Port of loading</TableHead>
+                    <TableHead>Port of discharge</TableHead>
+                    <TableHead>Vessel</TableHead>
+                    <TableHead>Unit Types</TableHead>
+                    <TableHead>Issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow
+                      key={row.row}
+                      className={cn(row.issues.length && "text-destructive")}
+                    >
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{row.departure}</TableCell>
+                      <TableCell>{row.arrival}</TableCell>
+                      <TableCell>{row.portOfLoading}</TableCell>
+                      <TableCell>{row.portOfDischarge}</TableCell>
+                      <TableCell>{row.vessel}</TableCell>
+                      <TableCell>{row.unitTypes}</TableCell>
+                      <TableCell>
+                        {row.issues.length === 0 ? (
+                          "OK"
+                        ) : (
+                          <ul className="space-y-1">
+                            {row.issues.map((issue) => (
+                              <li key={`${issue.path}-${issue.message}`}>
+                                {issue.path}: {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+      </Layout>
+    </>
+  );
+}
@@ -1,5 +1,4 @@
-import { useEffect, useState } from "react";
-import { z } from "zod";
+import { type ReactNode, useRef, useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm, FieldError, UseFormRegister } from "react-hook-form";
 import {
@@ -22,7 +21,6 @@ import {
   SheetClose,
 } from "~/components/ui/sheet"
 import { Label } from "~/components/ui/label"
-import { Input } from "~/components/ui/input"
 import { Checkbox } from "~/components/ui/checkbox"
 import {
   Select,
@@ -33,17 +31,27 @@ import {
 } from "~/components/ui/select"
 import { ToastAction } from "~/components/ui/toast"
 import { useToast } from "~/components/ui/use-toast"
-import { InvalidateQueryFilters, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { format } from "date-fns";
-import { Calendar } from "~/components/ui/calendar"
+import { InvalidateQueryFilters, useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "~/components/ui/popover"
-import { TimePicker } from "~/components/ui/time-picker";
+import { useSession } from "next-auth/react";
 import Head from "next/head";
+import Link from "next/link";
+import CalendarSubscribeButton from "~/components/calendar-subscribe-button";
 import Layout from "~/components/layout";
+import PortCombobox from "~/components/port-combobox";
+import PortDateTimePicker from "~/components/port-date-time-picker";
+import UnitTypePicker from "~/components/unit-type-picker";
+import UnitTypeTable from "~/components/unit-type-table";
+import UtilizationBar from "~/components/utilization-bar";
+import VoyageBulkActions from "~/components/voyage-bulk-actions";
+import VoyageDelayBadge from "~/components/voyage-delay-badge";
+import VoyageFilterBar from "~/components/voyage-filter-bar";
+import VoyageStatusBadge from "~/components/voyage-status-badge";
 import {
   Table,
   TableBody,
@@ -52,12 +60,22 @@ import {
   TableHeader,
   TableRow,
 } from "~/components/ui/table";
-import { cn, fetchData } from "~/utils";
-import type { ReturnType } from "./api/voyage/getAll";
+import { applyApiError, cn, fetchData, formatPortTime, formatTransitTime, toQueryString } from "~/utils";
+import type { ReturnType, VoyageListItem } from "./api/voyage/getAll";
 import type { VesselsType } from "./api/vessel/getAll";
 import type { UnitTypes } from "./api/unitType/getAll";
+import type { UnitGroups } from "./api/unitGroup/getAll";
+import type { Ports } from "./api/port/getAll";
 import { Button } from "~/components/ui/button";
-import { TABLE_DATE_FORMAT } from "~/constants";
+import {
+  type VoyageListParams,
+  type VoyageSortField,
+  type VoyageValues,
+  hasDeparted,
+  voyageSchema,
+} from "~/schemas/voyage";
+import { hasRole } from "~/schemas/user";
+import type { ScheduleConflict, ScheduleConflictBody } from "~/server/voyage";
 
 type FormData = {
   departure: Date;
@@ -68,66 +86,100 @@ type FormData = {
   unitType: string[];
 };
 
-const voyageFormSchema = z.object({
-  departure: z.date({
-    required_error: "A date is required.",
-  }),
-  arrival: z.date({
-    required_error: "A date is required.",
-  }),
-  vessel: z.string().min(2, {
-    message: "Vessel is a required field.",
-  }),
-  portOfLoading: z.string().min(1, {
-    message: "Port of loading is a required field.",
-  }),
-  portOfDischarge: z.string().min(1, {
-    message: "Port of discharge is a required field.",
-  }),
-  unitTypes: z.array(z.string()).refine((value) => value.length >= 5, {
-    message: "You have to select at least five Unit Types.",
-  }),
-}).refine((data) => {
-  const departure = new Date(data.departure);
-  const arrival = new Date(data.arrival);
-  return departure < arrival;
-}, {
-  message: "Departure must be before arrival date.",
-  path: ['arrival'],
-});
+const emptyVoyage: Partial<VoyageValues> = {
+  departure: undefined,
+  arrival: undefined,
+  portOfLoading: "",
+  portOfDischarge: "",
+  vessel: "-",
+  unitTypes: [],
+};
+
+type Sort = {
+  sortBy: VoyageSortField;
+  sortOrder: "asc" | "desc";
+};
+
+type SortableHeadProps = {
+  field: VoyageSortField;
+  sort: Sort;
+  onSort: (sort: Sort) => void;
+  children: ReactNode;
+};
 
+function SortableHead({ field, sort, onSort, children }: SortableHeadProps) {
+  const active = sort.sortBy === field;
+  return (
+    <TableHead>
+      <button
+        type="button"
+        className="hover:text-foreground"
+        onClick={() =>
+          onSort({
+            sortBy: field,
+            sortOrder: active && sort.sortOrder === "asc" ? "desc" : "asc",
+          })
+        }
+      >
+        {children}
+        {active && (sort.sortOrder === "asc" ? " ▲" : " ▼")}
+      </button>
+    </TableHead>
+  );
+}
 
 export default function Home() {
 
-  const voyageForm = useForm<z.infer<typeof voyageFormSchema>>({
-    resolver: zodResolver(voyageFormSchema),
-    defaultValues: {
-      departure: undefined,
-      arrival: undefined,
-      portOfLoading: "",
-      portOfDischarge: "",
-      vessel: "-",
-      unitTypes: [],
-    },
+  const voyageForm = useForm<VoyageValues>({
+    resolver: zodResolver(voyageSchema),
+    defaultValues: emptyVoyage,
   })
 
   const { reset } = voyageForm;
-  const { isSubmitting, isSubmitSuccessful } = voyageForm.formState;
-
-  useEffect(() => {
-    isSubmitSuccessful && reset()
-  
-  }, [isSubmitSuccessful, reset])
 
   const { toast } = useToast()
 
-  const { data: voyages } = useQuery<ReturnType>({
-    queryKey: ["voyages"],
+  const { data: session } = useSession();
+  const canEdit = hasRole(session?.user.role, "planner");
 
-    queryFn: () =>
-      fetchData("voyage/getAll")
+  const [filters, setFilters] = useState<VoyageListParams>({});
+  const [sort, setSort] = useState<Sort>({ sortBy: "departure", sortOrder: "asc" });
+  const [showDeleted, setShowDeleted] = useState(false);
+  const listParams: VoyageListParams = {
+    ...filters,
+    ...sort,
+    ...(showDeleted && { includeDeleted: "true" }),
+  };
+
+  const {
+    data: voyagePages,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["voyages", listParams],
+
+    queryFn: ({ pageParam }): Promise<ReturnType> =>
+      fetchData(`voyage/getAll?${toQueryString({ ...listParams, cursor: pageParam })}`),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  const voyages = voyagePages?.pages.flatMap((page) => page.items);
+  const totalVoyages = voyagePages?.pages[0]?.total ?? 0;
+
+  // Only voyages on the page can be selected; deleted ones are left out.
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectableIds = voyages?.filter((voyage) => !voyage.deletedAt).map(({ id }) => id) ?? [];
+  const selectedOnPage = selectedIds.filter((id) => selectableIds.includes(id));
+
+  const toggleSelected = (ids: string[], checked: boolean) =>
+    setSelectedIds(
+      checked
+        ? [...new Set([...selectedIds, ...ids])]
+        : selectedIds.filter((id) => !ids.includes(id))
+    );
+
   const { data: vessels } = useQuery<VesselsType>({
     queryKey: ["vessels"],
 
@@ -142,12 +194,41 @@ export default function Home() {
       fetchData("unitType/getAll")
   });
 
+  const { data: ports } = useQuery<Ports>({
+    queryKey: ["ports"],
+
+    queryFn: () =>
+      fetchData("port/getAll")
+  });
+
+  const { data: unitGroups } = useQuery<UnitGroups>({
+    queryKey: ["unitGroups"],
+
+    queryFn: () =>
+      fetchData("unitGroup/getAll")
+  });
+
 
   const queryClient = useQueryClient();
+
+  // Sends the same Idempotency-Key while the same request is repeated, e.g. with
+  // "Try again" after a timeout, so it is not carried out twice.
+  const lastRequest = useRef<{ request: string; key: string } | null>(null);
+  const idempotencyKeyFor = (...request: unknown[]) => {
+    const serialized = JSON.stringify(request);
+    if (lastRequest.current?.request !== serialized) {
+      lastRequest.current = { request: serialized, key: crypto.randomUUID() };
+    }
+    return lastRequest.current.key;
+  };
+
   const deleteVoyageMutation = useMutation({
     mutationFn: async (voyageId: string) => {
       const response = await fetch(`/api/voyage/delete?id=${voyageId}`, {
         method: "DELETE",
+        headers: {
+          "Idempotency-Key": idempotencyKeyFor("delete", voyageId),
+        },
       });
 
       if (!response.ok) {
@@ -163,10 +244,12 @@ export default function Home() {
           variant: "default",
           // title: "Voyage succesfully deleted",
           description: `Voyage succesfully deleted.`,
+          action: <ToastAction altText="Undo" onClick={() => handleRestore(voyageId)}>Undo</ToastAction>,
         })
       }
     },
    	onSuccess: async () => {
+        lastRequest.current = null;
         await queryClient.invalidateQueries(["voyages"] as InvalidateQueryFilters);
       },
     }
@@ -176,18 +259,68 @@ export default function Home() {
     deleteVoyageMutation.mutate(voyageId);
   };
 
+  const restoreVoyageMutation = useMutation({
+    mutationFn: async (voyageId: string) => {
+      const response = await fetch(`/api/voyage/restore?id=${voyageId}`, {
+        method: "POST",
+      });
+
+      if (response.status === 409) {
+        const { details } = (await response.json()) as ScheduleConflictBody;
+        toast({
+          variant: "destructive",
+          title: "Error: Could not restore voyage.",
+          description: details.map(({ message }) => message).join(" "),
+        });
+        throw new Error("Voyage conflicts with the vessel schedule");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not restore voyage.",
+          description: `A problem occured while attempting to restore voyage (id: ${voyageId}).`,
+          action: <ToastAction altText="Try again" onClick={() => handleRestore(voyageId)}>Try again</ToastAction>,
+        });
+        throw new Error("Failed to restore the voyage");
+      } else {
+        toast({
+          variant: "default",
+          description: `Voyage succesfully restored.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["voyages"] });
+    },
+  });
+
+  const handleRestore = (voyageId: string) => {
+    restoreVoyageMutation.mutate(voyageId);
+  };
+
 
   const createVoyageMutation = useMutation({
-    mutationFn: async (voyageData: object) => {
+    mutationFn: async (voyageData: VoyageValues) => {
       const response = await fetch(`/api/voyage/create`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKeyFor("create", voyageData),
         },
         body: JSON.stringify(voyageData),
       });
 
-      if (!response.ok) {
+      if (response.status === 400) {
+        await applyApiError(response, voyageForm, "Error: Could not create voyage.");
+        throw new Error("Voyage failed server validation");
+      } else if (response.status === 409) {
+        await setScheduleConflicts(response);
+        toast({
+          variant: "destructive",
+          title: "Error: Could not create voyage.",
+          description: "The vessel is already scheduled on conflicting voyages.",
+        });
+        throw new Error("Voyage conflicts with the vessel schedule");
+      } else if (!response.ok) {
         toast({
           variant: "destructive",
           title: "Error: Could not create voyage.",
@@ -203,23 +336,118 @@ export default function Home() {
       }
     },
    	onSuccess: async () => {
+        lastRequest.current = null;
+        reset();
         setOpen(false);
         await queryClient.invalidateQueries(["voyages"] as InvalidateQueryFilters);
       },
     }
   );
 
-  const handleCreate = (voyageData: object) => {
+  const handleCreate = (voyageData: VoyageValues) => {
     createVoyageMutation.mutate(voyageData);
   };
 
-  function onSubmit(values: z.infer<typeof voyageFormSchema>) {
-    console.log(values);
-    handleCreate(values);
+  const updateVoyageMutation = useMutation({
+    mutationFn: async ({ id, ...voyageData }: VoyageValues & { id: string }) => {
+      const response = await fetch(`/api/voyage/update?id=${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKeyFor("update", id, voyageData),
+        },
+        body: JSON.stringify({
+          ...voyageData,
+          unitTypes: { set: voyageData.unitTypes },
+        }),
+      });
+
+      if (response.status === 400) {
+        await applyApiError(response, voyageForm, "Error: Could not update voyage.");
+        throw new Error("Voyage failed server validation");
+      } else if (response.status === 409) {
+        await setScheduleConflicts(response);
+        toast({
+          variant: "destructive",
+          title: "Error: Could not update voyage.",
+          description: "The vessel is already scheduled on conflicting voyages.",
+        });
+        throw new Error("Voyage conflicts with the vessel schedule");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not update voyage.",
+          description: `A problem occured while attempting to update voyage (id: ${id}).`,
+          action: <ToastAction altText="Try again" onClick={() => handleUpdate(id, voyageData)}>Try again</ToastAction>,
+        });
+        throw new Error("Failed to update the voyage");
+      } else {
+        toast({
+          variant: "default",
+          description: `Voyage succesfully updated.`,
+        });
+      }
+    },
+   	onSuccess: async () => {
+        lastRequest.current = null;
+        reset();
+        setOpen(false);
+        await queryClient.invalidateQueries(["voyages"] as InvalidateQueryFilters);
+      },
+    }
+  );
+
+  const handleUpdate = (id: string, voyageData: VoyageValues) => {
+    updateVoyageMutation.mutate({ id, ...voyageData });
+  };
+
+  // Keeps the voyages listed in a 409 response so the sheet can show them.
+  async function setScheduleConflicts(response: Response) {
+    const { details = [] } = (await response.json()) as Partial<ScheduleConflictBody>;
+    setConflicts(details);
   }
 
+  function onSubmit(values: VoyageValues) {
+    setConflicts([]);
+    editingVoyageId ? handleUpdate(editingVoyageId, values) : handleCreate(values);
+  }
+
+  const timeZoneOf = (portId: string | undefined) =>
+    ports?.find((port) => port.id === portId)?.timezone;
+
+  // Keeps the entered local time when another port, and with it another zone, is picked.
+  function keepWallClockTime(field: "departure" | "arrival", fromPortId: string, toPortId: string) {
+    const date = voyageForm.getValues(field);
+    if (!date) return;
+    const from = timeZoneOf(fromPortId);
+    const to = timeZoneOf(toPortId);
+    const wallClock = from ? toZonedTime(date, from) : date;
+    voyageForm.setValue(field, to ? fromZonedTime(wallClock, to) : wallClock);
+  }
 
   const [open, setOpen] = useState(false)
+  const [editingVoyageId, setEditingVoyageId] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<ScheduleConflict[]>([])
+
+  const openCreate = () => {
+    setEditingVoyageId(null);
+    setConflicts([]);
+    reset(emptyVoyage);
+  };
+
+  const openEdit = (voyage: VoyageListItem) => {
+    setEditingVoyageId(voyage.id);
+    setConflicts([]);
+    reset({
+      departure: new Date(voyage.scheduledDeparture),
+      arrival: new Date(voyage.scheduledArrival),
+      portOfLoading: voyage.portOfLoadingId,
+      portOfDischarge: voyage.portOfDischargeId,
+      vessel: voyage.vesselId,
+      unitTypes: voyage.unitTypes.map(({ id }) => id),
+    });
+    setOpen(true);
+  };
   
   return (
     <>
@@ -229,17 +457,19 @@ export default function Home() {
       </Head>
       <Layout>
         <div className="flex flex-col w-full">
-          <div className="my-6">
+          <div className="my-6 flex gap-2">
           <Form {...voyageForm}>
             <form onSubmit={voyageForm.handleSubmit(onSubmit)} className="space-y-8">
 
               <Sheet open={open} onOpenChange={setOpen}>
-                <SheetTrigger asChild>
-                  <Button variant="default">Create</Button>
-                </SheetTrigger>
+                {canEdit && (
+                  <SheetTrigger asChild>
+                    <Button variant="default" onClick={openCreate}>Create</Button>
+                  </SheetTrigger>
+                )}
                 <SheetContent side="left">
                   <SheetHeader>
-                    <SheetTitle>Create New Voyage</SheetTitle>
+                    <SheetTitle>{editingVoyageId ? "Edit Voyage" : "Create New Voyage"}</SheetTitle>
                   </SheetHeader>
 
                   <div className="overflow-scroll h-[90%]">
@@ -251,41 +481,14 @@ export default function Home() {
                         render={({ field }) => (
                           <FormItem className="flex flex-col">
                             <FormLabel className="text-left">Departure</FormLabel>
-                            <Popover>
-                              <FormControl>
-                                <PopoverTrigger asChild>
-                                  <Button
-                                    variant="outline"
-                                    className={cn(
-                                      "w-[280px] justify-start text-left font-normal",
-                                      !field.value && "text-muted-foreground"
-                                    )}
-                                  >
-                                    {/* <CalendarIcon className="mr-2 h-4 w-4" /> */}
-                                    {field.value ? (
-                                      format(field.value, "PPP HH:mm:ss")
-                                    ) : (
-                                      <span>Pick a date</span>
-                                    )}
-                                  </Button>
-                                </PopoverTrigger>                                
-                              </FormControl>
-                              <FormMessage />
-                              <PopoverContent className="w-auto p-0">
-                                <Calendar
-                                  mode="single"
-                                  selected={field.value}
-                                  onSelect={field.onChange}
-                                  initialFocus
-                                />
-                                <div className="p-3 border-t border-border">
-                                  <TimePicker
-                                    setDate={field.onChange}
-                                    date={field.value}
-                                  />
-                                </div>
-                              </PopoverContent>
-                            </Popover>
+                            <FormControl>
+                              <PortDateTimePicker
+                                value={field.value}
+                                onChange={field.onChange}
+                                timeZone={timeZoneOf(voyageForm.watch("portOfLoading"))}
+                              />
+                            </FormControl>
+                            <FormMessage />
                           </FormItem>
                         )}
                       />
@@ -298,41 +501,19 @@ export default function Home() {
                         render={({ field }) => (
                           <FormItem className="flex flex-col">
                             <FormLabel className="text-left">Arrival</FormLabel>
-                            <Popover>
-                              <FormControl>
-                                <PopoverTrigger asChild>
-                                  <Button
-                                    variant="outline"
-                                    className={cn(
-                                      "w-[280px] justify-start text-left font-normal",
-                                      !field.value && "text-muted-foreground"
-                                    )}
-                                  >
-                                    {/* <CalendarIcon className="mr-2 h-4 w-4" /> */}
-                                    {field.value ? (
-                                      format(field.value, "PPP HH:mm:ss")
-                                    ) : (
-                                      <span>Pick a date</span>
-                                    )}
-                                  </Button>
-                                </PopoverTrigger>
-                              </FormControl>
-                              <FormMessage />
-                              <PopoverContent className="w-auto p-0">
-                                <Calendar
-                                  mode="single"
-                                  selected={field.value}
-                                  onSelect={field.onChange}
-                                  initialFocus
-                                />
-                                <div className="p-3 border-t border-border">
-                                  <TimePicker
-                                    setDate={field.onChange}
-                                    date={field.value}
-                                  />
-                                </div>
-                              </PopoverContent>
-                            </Popover>
+                            <FormControl>
+                              <PortDateTimePicker
+                                value={field.value}
+                                onChange={field.onChange}
+                                timeZone={timeZoneOf(voyageForm.watch("portOfDischarge"))}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                            {voyageForm.watch("departure") && field.value && (
+                              <FormDescription>
+                                Transit time: {formatTransitTime(voyageForm.watch("departure"), field.value)}
+                              </FormDescription>
+                            )}
                           </FormItem>
                         )}
                       />
@@ -346,7 +527,15 @@ export default function Home() {
                           <FormItem>
                             <FormLabel>Port of loading</FormLabel>
                             <FormControl>
-                              <Input placeholder="" {...field} />
+                              <PortCombobox
+                                ports={ports}
+                                value={field.value}
+                                onChange={(portId) => {
+                                  keepWallClockTime("departure", field.value, portId);
+                                  field.onChange(portId);
+                                }}
+                                excludePortId={voyageForm.watch("portOfDischarge")}
+                              />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -362,7 +551,15 @@ export default function Home() {
                           <FormItem>
                             <FormLabel>Port of discharge</FormLabel>
                             <FormControl>
-                              <Input placeholder="" {...field} />
+                              <PortCombobox
+                                ports={ports}
+                                value={field.value}
+                                onChange={(portId) => {
+                                  keepWallClockTime("arrival", field.value, portId);
+                                  field.onChange(portId);
+                                }}
+                                excludePortId={voyageForm.watch("portOfLoading")}
+                              />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
@@ -377,7 +574,7 @@ export default function Home() {
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>Vessel</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <Select onValueChange={field.onChange} value={field.value}>
                               <FormControl>
                                 <SelectTrigger>
                                 <SelectValue placeholder="Select a Vessel" />                              
@@ -400,7 +597,7 @@ export default function Home() {
                       <FormField
                         control={voyageForm.control}
                         name="unitTypes"
-                        render={() => (
+                        render={({ field }) => (
                           <FormItem>
                             <div className="mb-4">
                               <FormLabel className="text-base">Unit Types</FormLabel>
@@ -408,115 +605,175 @@ export default function Home() {
                                 Select at least five Unit Types.
                               </FormDescription>
                             </div>
-                            <div className="h-28 overflow-scroll">
-                            {unitTypes?.map((unitType) => (
-                              <FormField
-                                key={unitType.id}
-                                control={voyageForm.control}
-                                name="unitTypes"
-                                render={({ field }) => {
-                                  return (
-                                    <FormItem
-                                      key={unitType.id}
-                                      className="flex flex-row my-2 items-start space-x-3 space-y-0"
-                                    >
-                                      <FormControl>
-                                        <Checkbox
-                                          checked={field.value?.includes(unitType.id)}
-                                          onCheckedChange={(checked) => {
-                                            return checked
-                                              ? field.onChange([...field.value, unitType.id])
-                                              : field.onChange(
-                                                  field.value?.filter(
-                                                    (value: string) => value !== unitType.id
-                                                  )
-                                                )
-                                          }}
-                                        />
-                                      </FormControl>
-                                      <FormLabel className="font-normal">
-                                        {unitType.name}
-                                      </FormLabel>
-                                    </FormItem>
-                                  )
-                                }}
-                              />
-                            ))}
-                            </div>
+                            <UnitTypePicker
+                              unitGroups={unitGroups}
+                              value={field.value}
+                              onChange={field.onChange}
+                            />
                             <FormMessage />
                           </FormItem>
                         )}
                       />  
                     </div>
+
+                    {conflicts.length > 0 && (
+                      <div className="mt-6 rounded-md border border-destructive p-3 text-sm">
+                        <p className="font-medium text-destructive">
+                          Conflicts with the vessel&apos;s schedule
+                        </p>
+                        <ul className="mt-2 space-y-1">
+                          {conflicts.map((conflict) => (
+                            <li key={`${conflict.voyageId}-${conflict.reason}`}>
+                              <Link
+                                href={`/voyages/${conflict.voyageId}`}
+                                className="hover:underline"
+                              >
+                                {conflict.voyageId}
+                              </Link>
+                              : {conflict.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
 
 
 
                   <SheetFooter>
                     {/* <SheetClose asChild> */}
-                      <Button type="button" className="mt-6" onClick={voyageForm.handleSubmit(onSubmit)}>Save Voyage</Button>
+                      <Button type="button" className="mt-6" disabled={createVoyageMutation.isPending || updateVoyageMutation.isPending} onClick={voyageForm.handleSubmit(onSubmit)}>Save Voyage</Button>
                     {/* </SheetClose> */}
                   </SheetFooter>
                 </SheetContent>
               </Sheet>
              </form>
             </Form>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline">Export</Button>
+              </PopoverTrigger>
+              <PopoverContent className="flex w-auto flex-col gap-2">
+                {(["csv", "xlsx"] as const).map((fileFormat) => (
+                  <Button key={fileFormat} variant="ghost" asChild>
+                    <a href={`/api/voyage/export?${toQueryString({ ...listParams, format: fileFormat })}`} download>
+                      {fileFormat.toUpperCase()}
+                    </a>
+                  </Button>
+                ))}
+              </PopoverContent>
+            </Popover>
+            <CalendarSubscribeButton
+              params={{ vesselId: filters.vesselId, portOfLoading: filters.portOfLoading, portOfDischarge: filters.portOfDischarge }}
+              title="Copies the link of the calendar feed of the filtered vessel and route, to subscribe from a calendar app."
+            />
+          </div>
+          <div className="mb-4">
+            <VoyageFilterBar
+              filters={filters}
+              onChange={setFilters}
+              vessels={vessels}
+              unitTypes={unitTypes}
+              unitGroups={unitGroups}
+              ports={ports}
+            />
+            <div className="mt-4 flex items-center space-x-2">
+              <Checkbox
+                id="show-deleted"
+                checked={showDeleted}
+                onCheckedChange={(checked) => setShowDeleted(checked === true)}
+              />
+              <Label htmlFor="show-deleted">Show deleted</Label>
+            </div>
           </div>
+          {canEdit && selectedOnPage.length > 0 && (
+            <div className="mb-4">
+              <VoyageBulkActions
+                selectedIds={selectedOnPage}
+                vessels={vessels}
+                unitTypes={unitTypes}
+                onDone={() => setSelectedIds([])}
+              />
+            </div>
+          )}
           <div className="">
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Departure</TableHead>
-                <TableHead>Arrival</TableHead>
-                <TableHead>Port of loading</TableHead>
-                <TableHead>Port of discharge</TableHead>
-                <TableHead>Vessel</TableHead>
-                <TableHead>Unit Types</TableHead>
+                <TableHead>
+                  {canEdit && (
+                    <Checkbox
+                      aria-label="Select all"
+                      checked={
+                        selectedOnPage.length === 0
+                          ? false
+                          : selectedOnPage.length === selectableIds.length
+                            ? true
+                            : "indeterminate"
+                      }
+                      onCheckedChange={(checked) => toggleSelected(selectableIds, checked === true)}
+                    />
+                  )}
+                </TableHead>
+                <SortableHead field="departure" sort={sort} onSort={setSort}>Departure</SortableHead>
+                <SortableHead field="arrival" sort={sort} onSort={setSort}>Arrival</SortableHead>
+                <SortableHead field="portOfLoading" sort={sort} onSort={setSort}>Port of loading</SortableHead>
+                <SortableHead field="portOfDischarge" sort={sort} onSort={setSort}>Port of discharge</SortableHead>
+                <SortableHead field="vessel" sort={sort} onSort={setSort}>Vessel</SortableHead>
+                <TableHead>Status</TableHead>
+                <SortableHead field="unitTypes" sort={sort} onSort={setSort}>Unit Types</SortableHead>
+                <TableHead>Unit Groups</TableHead>
+                <TableHead>Bookings</TableHead>
+                <TableHead>Utilization</TableHead>
                 <TableHead>&nbsp;</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {voyages?.map((voyage) => (
-                <TableRow key={voyage.id}>
+                <TableRow key={voyage.id} className={cn(voyage.deletedAt && "text-muted-foreground")}>
                   <TableCell>
-                    {format(
-                      new Date(voyage.scheduledDeparture),
-                      TABLE_DATE_FORMAT
+                    {canEdit && (
+                      <Checkbox
+                        aria-label="Select voyage"
+                        disabled={!!voyage.deletedAt}
+                        checked={selectedOnPage.includes(voyage.id)}
+                        onCheckedChange={(checked) => toggleSelected([voyage.id], checked === true)}
+                      />
                     )}
                   </TableCell>
                   <TableCell>
-                    {format(new Date(voyage.scheduledArrival), TABLE_DATE_FORMAT)}
+                    <Link href={`/voyages/${voyage.id}`} className="hover:underline">
+                      {formatPortTime(voyage.scheduledDeparture, voyage.portOfLoading.timezone)}
+                    </Link>
+                    {voyage.deletedAt && <span className="ml-2 text-xs">(deleted)</span>}
+                    <div>
+                      <VoyageDelayBadge scheduled={voyage.scheduledDeparture} actual={voyage.actualDeparture} estimated={voyage.estimatedDeparture} />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {formatPortTime(voyage.scheduledArrival, voyage.portOfDischarge.timezone)}
+                    <div>
+                      <VoyageDelayBadge scheduled={voyage.scheduledArrival} actual={voyage.actualArrival} estimated={voyage.estimatedArrival} />
+                    </div>
                   </TableCell>
-                  <TableCell>{voyage.portOfLoading}</TableCell>
-                  <TableCell>{voyage.portOfDischarge}</TableCell>
+                  <TableCell>{voyage.portOfLoading.name}</TableCell>
+                  <TableCell>{voyage.portOfDischarge.name}</TableCell>
                   <TableCell>{voyage.vessel.name}</TableCell>
+                  <TableCell>
+                    <VoyageStatusBadge status={voyage.status} title={voyage.cancellationReason ?? undefined} />
+                  </TableCell>
                   <TableCell>
                     
                     <Popover>
                       <PopoverTrigger asChild>
                         <Button variant="ghost" title="Click to see more.">{voyage.unitTypes.length}</Button>
                       </PopoverTrigger>
-                      <PopoverContent className="w-80">
+                      <PopoverContent className="w-auto">
                         <div className="grid gap-4">
                           <div className="space-y-2">
                             <h4 className="font-medium leading-none">Unit Types</h4>
 
-                            <Table>
-                              <TableHeader>
-                                <TableRow>
-                                  <TableHead>Name</TableHead>
-                                  <TableHead>Default length</TableHead>
-                                </TableRow>
-                              </TableHeader>
-                              <TableBody>
-                              {voyage.unitTypes?.map((unitType) => (
-                                <TableRow key={unitType.id}>
-                                  <TableCell>{unitType.name}</TableCell>
-                                  <TableCell align="right">{unitType.defaultLength}</TableCell>
-                                </TableRow>
-                              ))}
-                              </TableBody>
-                            </Table>
+                            <UnitTypeTable unitTypes={voyage.unitTypes} />
                           </div>
                         </div>
                       </PopoverContent>
@@ -524,18 +781,65 @@ export default function Home() {
 
                   </TableCell>
                   <TableCell>
-                    <Button
-                      onClick={() => handleDelete(voyage.id)}
-                      variant="destructive"
-                      title="Delete"
-                    >
-                      X
-                    </Button>
+                    {[...new Set(voyage.unitTypes.map(({ unitGroupId }) => unitGroupId))]
+                      .map((id) => unitGroups?.find((unitGroup) => unitGroup.id === id)?.name ?? id)
+                      .join(", ")}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {voyage.utilization.bookingCount}{" "}
+                    <span className="text-muted-foreground">
+                      ({voyage.utilization.bookedLaneMeters.toFixed(1)} lm)
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <UtilizationBar utilization={voyage.utilization} />
+                  </TableCell>
+                  <TableCell className="space-x-2 whitespace-nowrap">
+                    {canEdit && (voyage.deletedAt ? (
+                      <Button
+                        onClick={() => handleRestore(voyage.id)}
+                        variant="outline"
+                        title="Restore"
+                      >
+                        Restore
+                      </Button>
+                    ) : (
+                      <>
+                        <Button
+                          onClick={() => openEdit(voyage)}
+                          variant="outline"
+                          title="Edit"
+                          disabled={hasDeparted(voyage.status)}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          onClick={() => handleDelete(voyage.id)}
+                          variant="destructive"
+                          title="Delete"
+                          disabled={hasDeparted(voyage.status)}
+                        >
+                          X
+                        </Button>
+                      </>
+                    ))}
                   </TableCell>
                 </TableRow>
               ))}
             </TableBody>
           </Table>
+          <div className="flex items-center justify-between py-4 text-sm text-muted-foreground">
+            <span>Showing {voyages?.length ?? 0} of {totalVoyages} voyages</span>
+            {hasNextPage && (
+              <Button
+                variant="outline"
+                disabled={isFetchingNextPage}
+                onClick={() => void fetchNextPage()}
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more"}
+              </Button>
+            )}
+          </div>
           </div>
         </div>
       </Layout>
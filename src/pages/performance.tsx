@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { endOfDay, format, parseISO, startOfDay, subDays } from "date-fns";
+import Head from "next/head";
+import Layout from "~/components/layout";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { ON_TIME_TOLERANCE_MINUTES } from "~/constants";
+import { fetchData, toQueryString } from "~/utils";
+import type { VoyagePerformance } from "./api/voyage/performance";
+
+export default function Performance() {
+  const [from, setFrom] = useState(() =>
+    format(subDays(new Date(), 30), "yyyy-MM-dd"),
+  );
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const params = {
+    from: from && startOfDay(parseISO(from)).toISOString(),
+    to: to && endOfDay(parseISO(to)).toISOString(),
+  };
+
+  const { data: performance, error } = useQuery<VoyagePerformance>({
+    queryKey: ["voyages", "performance", params],
+    queryFn: () => fetchData(`voyage/performance?${toQueryString(params)}`),
+    enabled: !!from && !!to,
+  });
+
+  return (
+    <>
+      <Head>
+        <title>Performance | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <div className="flex w-full flex-col space-y-6 py-6">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">On-time performance</h1>
+            <p className="text-sm text-muted-foreground">
+              Arrivals of the voyages that departed in the period, per route. A
+              voyage arriving within {ON_TIME_TOLERANCE_MINUTES} minutes of its
+              schedule is on time.
+            </p>
+          </div>
+          <div className="flex items-end gap-4">
+            <div className="grid gap-1">
+              <Label className="text-xs">From</Label>
+              <Input
+                type="date"
+                className="w-40"
+                value={from}
+                onChange={(event) => setFrom(event.target.value)}
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label className="text-xs">To</Label>
+              <Input
+                type="date"
+                className="w-40"
+                value={to}
+                onChange={(event) => setTo(event.target.value)}
+              />
+            </div>
+          </div>
+          {error && (
+            <p className="text-sm text-destructive">
+              A problem occured while loading the performance. Check the period.
+            </p>
+          )}
+          {performance?.routes.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No voyages with a reported arrival departed in this period.
+            </p>
+          )}
+          {!!performance?.routes.length && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Route</TableHead>
+                  <TableHead>Voyages</TableHead>
+                  <TableHead>On time</TableHead>
+                  <TableHead>Delayed</TableHead>
+                  <TableHead>Early</TableHead>
+                  <TableHead>On-time performance</TableHead>
+                  <TableHead>Average delay</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {performance.routes.map((route) => (
+                  <TableRow
+                    key={`${route.portOfLoading.id}-${route.portOfDischarge.id}`}
+                  >
+                    <TableCell>
+                      {route.portOfLoading.name} &rarr;{" "}
+                      {route.portOfDischarge.name}
+                    </TableCell>
+                    <TableCell>{route.voyages}</TableCell>
+                    <TableCell>{route.onTime}</TableCell>
+                    <TableCell>{route.delayed}</TableCell>
+                    <TableCell>{route.early}</TableCell>
+                    <TableCell>{route.onTimePercentage.toFixed(1)} %</TableCell>
+                    <TableCell>
+                      {Math.round(route.averageDelayMinutes)} min
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </Layout>
+    </>
+  );
+}
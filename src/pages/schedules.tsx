@@ -0,0 +1,578 @@
+import { useEffect, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatInTimeZone } from "date-fns-tz";
+import Head from "next/head";
+import Link from "next/link";
+import Layout from "~/components/layout";
+import PortCombobox from "~/components/port-combobox";
+import UnitTypePicker from "~/components/unit-type-picker";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { type ScheduleValues, scheduleSchema } from "~/schemas/schedule";
+import type { ScheduleOccurrence } from "~/server/schedule";
+import { applyApiError, cn, fetchData, formatPortTime } from "~/utils";
+import type { CreatedSchedule } from "./api/schedule/create";
+import type { SchedulePreview } from "./api/schedule/preview";
+import type { Ports } from "./api/port/getAll";
+import type { UnitGroups } from "./api/unitGroup/getAll";
+import type { VesselsType } from "./api/vessel/getAll";
+
+const emptySchedule: Partial<ScheduleValues> = {
+  portOfLoading: "",
+  portOfDischarge: "",
+  vessel: "-",
+  unitTypes: [],
+  weekdays: [],
+  departureTime: "15:00",
+  durationMinutes: 18 * 60,
+  startDate: "",
+  endDate: "",
+  exceptionDates: [],
+  alternate: false,
+};
+
+// Monday first, numbered like `getDay`.
+const weekdays = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+export default function Schedules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [occurrences, setOccurrences] = useState<ScheduleOccurrence[] | null>(
+    null,
+  );
+  const [exceptionDate, setExceptionDate] = useState("");
+
+  const scheduleForm = useForm<ScheduleValues>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: emptySchedule,
+  });
+
+  // A preview only holds for the values it was made from.
+  useEffect(() => {
+    const subscription = scheduleForm.watch(() => setOccurrences(null));
+    return () => subscription.unsubscribe();
+  }, [scheduleForm]);
+
+  const { data: vessels } = useQuery<VesselsType>({
+    queryKey: ["vessels"],
+    queryFn: () => fetchData("vessel/getAll"),
+  });
+
+  const { data: ports } = useQuery<Ports>({
+    queryKey: ["ports"],
+    queryFn: () => fetchData("port/getAll"),
+  });
+
+  const { data: unitGroups } = useQuery<UnitGroups>({
+    queryKey: ["unitGroups"],
+    queryFn: () => fetchData("unitGroup/getAll"),
+  });
+
+  const previewScheduleMutation = useMutation({
+    mutationFn: async (scheduleData: ScheduleValues) => {
+      const response = await fetch(`/api/schedule/preview`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(scheduleData),
+      });
+
+      if (response.status === 400) {
+        await applyApiError(
+          response,
+          scheduleForm,
+          "Error: Could not preview schedule.",
+        );
+        throw new Error("Schedule failed server validation");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not preview schedule.",
+          description: `A problem occured while attempting to preview schedule.`,
+        });
+        throw new Error("Failed to preview the schedule");
+      }
+
+      return (await response.json()) as SchedulePreview;
+    },
+    onSuccess: (preview) => setOccurrences(preview.occurrences),
+  });
+
+  const createScheduleMutation = useMutation({
+    mutationFn: async (scheduleData: ScheduleValues) => {
+      const response = await fetch(`/api/schedule/create`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(scheduleData),
+      });
+
+      if (response.status === 400) {
+        await applyApiError(
+          response,
+          scheduleForm,
+          "Error: Could not create voyages.",
+        );
+        throw new Error("Schedule failed server validation");
+      } else if (response.status === 409) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not create voyages.",
+          description:
+            "Some voyages conflict with the vessel's schedule. Skip them or change the rule.",
+        });
+        previewScheduleMutation.mutate(scheduleData);
+        throw new Error("Schedule conflicts with the vessel schedule");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not create voyages.",
+          description: `A problem occured while attempting to create voyages.`,
+        });
+        throw new Error("Failed to create the voyages");
+      }
+
+      const { count } = (await response.json()) as CreatedSchedule;
+      toast({
+        variant: "default",
+        description: `${count} voyages succesfully created.`,
+      });
+    },
+    onSuccess: async () => {
+      scheduleForm.reset(emptySchedule);
+      await queryClient.invalidateQueries({ queryKey: ["voyages"] });
+    },
+  });
+
+  const addExceptionDate = (date: string) => {
+    const exceptionDates = scheduleForm.getValues("exceptionDates");
+    if (date && !exceptionDates.includes(date)) {
+      scheduleForm.setValue("exceptionDates", [...exceptionDates, date].sort());
+    }
+  };
+
+  const removeExceptionDate = (date: string) =>
+    scheduleForm.setValue(
+      "exceptionDates",
+      scheduleForm
+        .getValues("exceptionDates")
+        .filter((value) => value !== date),
+    );
+
+  const timeZoneOf = (portId: string) =>
+    ports?.find((port) => port.id === portId)?.timezone ?? "UTC";
+
+  const skipOccurrence = (occurrence: ScheduleOccurrence) => {
+    addExceptionDate(
+      formatInTimeZone(
+        occurrence.departure,
+        timeZoneOf(occurrence.portOfLoading),
+        "yyyy-MM-dd",
+      ),
+    );
+    void scheduleForm.handleSubmit((values) =>
+      previewScheduleMutation.mutate(values),
+    )();
+  };
+
+  const conflictCount =
+    occurrences?.filter(({ conflicts }) => conflicts.length).length ?? 0;
+
+  return (
+    <>
+      <Head>
+        <title>Schedules | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout role="planner">
+        <div className="flex w-full flex-col gap-8 py-6 lg:flex-row">
+          <Form {...scheduleForm}>
+            <form
+              className="w-full space-y-6 lg:w-96"
+              onSubmit={(event) =>
+                void scheduleForm.handleSubmit((values) =>
+                  previewScheduleMutation.mutate(values),
+                )(event)
+              }
+            >
+              <h1 className="text-2xl font-semibold">Recurring schedule</h1>
+              <FormField
+                control={scheduleForm.control}
+                name="portOfLoading"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Port of loading</FormLabel>
+                    <FormControl>
+                      <PortCombobox
+                        ports={ports}
+                        value={field.value}
+                        onChange={field.onChange}
+                        excludePortId={scheduleForm.watch("portOfDischarge")}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={scheduleForm.control}
+                name="portOfDischarge"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Port of discharge</FormLabel>
+                    <FormControl>
+                      <PortCombobox
+                        ports={ports}
+                        value={field.value}
+                        onChange={field.onChange}
+                        excludePortId={scheduleForm.watch("portOfLoading")}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={scheduleForm.control}
+                name="vessel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vessel</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a Vessel" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="-">Select a Vessel</SelectItem>
+                        {vessels?.map((vessel) => (
+                          <SelectItem key={vessel.value} value={vessel.value}>
+                            {vessel.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={scheduleForm.control}
+                name="weekdays"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Weekdays</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {weekdays.map((weekday) => (
+                        <div
+                          key={weekday.value}
+                          className="flex items-center space-x-2"
+                        >
+                          <Checkbox
+                            id={`weekday-${weekday.value}`}
+                            checked={field.value.includes(weekday.value)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, weekday.value]
+                                  : field.value.filter(
+                                      (value) => value !== weekday.value,
+                                    ),
+                              )
+                            }
+                          />
+                          <Label htmlFor={`weekday-${weekday.value}`}>
+                            {weekday.label}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={scheduleForm.control}
+                name="alternate"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center space-x-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked === true)
+                          }
+                        />
+                      </FormControl>
+                      <FormLabel>Alternate the direction</FormLabel>
+                    </div>
+                    <FormDescription>
+                      Every other voyage sails back from the port of discharge.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex gap-4">
+                <FormField
+                  control={scheduleForm.control}
+                  name="departureTime"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Departure time</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Local time at the port the voyage leaves from.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={scheduleForm.control}
+                  name="durationMinutes"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Transit (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex gap-4">
+                <FormField
+                  control={scheduleForm.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>From</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={scheduleForm.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>To</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={scheduleForm.control}
+                name="exceptionDates"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exception dates</FormLabel>
+                    <FormDescription>
+                      No voyages are created on these dates.
+                    </FormDescription>
+                    <div className="flex gap-2">
+                      <Input
+                        type="date"
+                        value={exceptionDate}
+                        onChange={(event) =>
+                          setExceptionDate(event.target.value)
+                        }
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => {
+                          addExceptionDate(exceptionDate);
+                          setExceptionDate("");
+                        }}
+                      >
+                        Add
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {field.value.map((date) => (
+                        <Button
+                          key={date}
+                          type="button"
+                          variant="secondary"
+                          size="sm"
+                          title="Remove"
+                          onClick={() => removeExceptionDate(date)}
+                        >
+                          {date} &times;
+                        </Button>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={scheduleForm.control}
+                name="unitTypes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unit Types</FormLabel>
+                    <FormDescription>
+                      Select at least five Unit Types.
+                    </FormDescription>
+                    <UnitTypePicker
+                      unitGroups={unitGroups}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit">Preview</Button>
+            </form>
+          </Form>
+
+          <div className="flex-1 space-y-4">
+            {occurrences === null ? (
+              <p className="text-sm text-muted-foreground">
+                Preview the schedule to see the voyages it creates.
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">
+                    {occurrences.length} voyages, {conflictCount} with
+                    conflicts.
+                  </p>
+                  <Button
+                    disabled={conflictCount > 0}
+                    onClick={() =>
+                      createScheduleMutation.mutate(scheduleForm.getValues())
+                    }
+                  >
+                    Create {occurrences.length} voyages
+                  </Button>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Route</TableHead>
+                      <TableHead>Departure</TableHead>
+                      <TableHead>Arrival</TableHead>
+                      <TableHead>Conflicts</TableHead>
+                      <TableHead>&nbsp;</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {occurrences.map((occurrence) => (
+                      <TableRow
+                        key={String(occurrence.departure)}
+                        className={cn(
+                          occurrence.conflicts.length && "text-destructive",
+                        )}
+                      >
+                        <TableCell>
+                          {occurrence.portOfLoading} &rarr;{" "}
+                          {occurrence.portOfDischarge}
+                        </TableCell>
+                        <TableCell>
+                          {formatPortTime(
+                            occurrence.departure,
+                            timeZoneOf(occurrence.portOfLoading),
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {formatPortTime(
+                            occurrence.arrival,
+                            timeZoneOf(occurrence.portOfDischarge),
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <ul className="space-y-1 text-sm">
+                            {occurrence.conflicts.map((conflict) => (
+                              <li
+                                key={`${conflict.voyageId}-${conflict.reason}`}
+                              >
+                                <Link
+                                  href={`/voyages/${conflict.voyageId}`}
+                                  className="hover:underline"
+                                >
+                                  {conflict.message}
+                                </Link>
+                              </li>
+                            ))}
+                          </ul>
+                        </TableCell>
+                        <TableCell>
+                          {occurrence.conflicts.length > 0 && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => skipOccurrence(occurrence)}
+                            >
+                              Skip
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { signIn } from "next-auth/react";
+import { ThemeProvider as NextThemesProvider } from "next-themes";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import { useForm } from "react-hook-form";
+import { Button } from "~/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { Input } from "~/components/ui/input";
+import { type SignInValues, signInSchema } from "~/schemas/user";
+
+/**
+ * Only follows callback URLs on this site, so the sign-in page cannot be used
+ * to send users elsewhere. Anything else goes to the voyage list.
+ */
+function toSafeCallbackUrl(callbackUrl: unknown) {
+  if (typeof callbackUrl !== "string") {
+    return "/";
+  }
+
+  try {
+    const url = new URL(callbackUrl, window.location.origin);
+    return url.origin === window.location.origin
+      ? `${url.pathname}${url.search}${url.hash}`
+      : "/";
+  } catch {
+    return "/";
+  }
+}
+
+export default function SignIn() {
+  const router = useRouter();
+  const [failed, setFailed] = useState(false);
+
+  const signInForm = useForm<SignInValues>({
+    resolver: zodResolver(signInSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  async function onSubmit(values: SignInValues) {
+    setFailed(false);
+    const result = await signIn("credentials", { ...values, redirect: false });
+
+    if (!result?.ok) {
+      setFailed(true);
+      return;
+    }
+
+    await router.push(toSafeCallbackUrl(router.query.callbackUrl));
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Sign in | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <NextThemesProvider attribute="class" defaultTheme="dark" enableSystem>
+        <main className="mx-auto flex min-h-screen w-full max-w-sm flex-col justify-center px-4">
+          <h1 className="mb-6 text-2xl font-semibold">Sign in</h1>
+          <Form {...signInForm}>
+            <form
+              onSubmit={(event) =>
+                void signInForm.handleSubmit(onSubmit)(event)
+              }
+              className="space-y-6"
+            >
+              <FormField
+                control={signInForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="username" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={signInForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete="current-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {failed && (
+                <p className="text-sm text-destructive">
+                  The email or password is incorrect.
+                </p>
+              )}
+              <Button type="submit" className="w-full">
+                Sign in
+              </Button>
+            </form>
+          </Form>
+        </main>
+      </NextThemesProvider>
+    </>
+  );
+}
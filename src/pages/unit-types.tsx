@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { UnitType } from "@prisma/client";
+import { useSession } from "next-auth/react";
+import Head from "next/head";
+import Layout from "~/components/layout";
+import { Button } from "~/components/ui/button";
+import { Checkbox } from "~/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { Input } from "~/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "~/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { useToast } from "~/components/ui/use-toast";
+import { type UnitTypeValues, unitTypeSchema } from "~/schemas/unitType";
+import { hasRole } from "~/schemas/user";
+import { applyApiError, cn, fetchData } from "~/utils";
+import type { UnitTypes } from "./api/unitType/getAll";
+import type { UnitGroups } from "./api/unitGroup/getAll";
+
+const emptyUnitType: UnitTypeValues = {
+  id: "",
+  name: "",
+  defaultLength: 0,
+  allowDrivers: false,
+  unitGroupId: "",
+  mandatoryField: "",
+  unitNumberAvailable: false,
+};
+
+export default function UnitTypesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+  const canEdit = hasRole(session?.user.role, "admin");
+
+  const [open, setOpen] = useState(false);
+  const [editingUnitTypeId, setEditingUnitTypeId] = useState<string | null>(
+    null,
+  );
+
+  const unitTypeForm = useForm<UnitTypeValues>({
+    resolver: zodResolver(unitTypeSchema),
+    defaultValues: emptyUnitType,
+  });
+
+  const { data: unitTypes } = useQuery<UnitTypes>({
+    queryKey: ["unitTypes", "includeInactive"],
+    queryFn: () => fetchData("unitType/getAll?includeInactive=true"),
+  });
+
+  const { data: unitGroups } = useQuery<UnitGroups>({
+    queryKey: ["unitGroups"],
+    queryFn: () => fetchData("unitGroup/getAll"),
+  });
+
+  const saveUnitTypeMutation = useMutation({
+    mutationFn: async ({ id, ...unitTypeData }: UnitTypeValues) => {
+      const response = await fetch(
+        editingUnitTypeId
+          ? `/api/unitType/update?id=${editingUnitTypeId}`
+          : `/api/unitType/create`,
+        {
+          method: editingUnitTypeId ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(
+            editingUnitTypeId ? unitTypeData : { id, ...unitTypeData },
+          ),
+        },
+      );
+
+      if (response.status === 400) {
+        await applyApiError(
+          response,
+          unitTypeForm,
+          "Error: Could not save unit type.",
+        );
+
+        throw new Error("Unit type failed server validation");
+      } else if (response.status === 409) {
+        unitTypeForm.setError("id", {
+          type: "server",
+          message: "A unit type with this code already exists.",
+        });
+        throw new Error("Unit type already exists");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not save unit type.",
+          description: `A problem occured while attempting to save unit type.`,
+        });
+        throw new Error("Failed to save the unit type");
+      } else {
+        toast({
+          variant: "default",
+          description: `Unit type succesfully saved.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      unitTypeForm.reset(emptyUnitType);
+      setOpen(false);
+      await queryClient.invalidateQueries({ queryKey: ["unitTypes"] });
+      await queryClient.invalidateQueries({ queryKey: ["unitGroups"] });
+    },
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async (unitType: UnitType) => {
+      const response = unitType.active
+        ? await fetch(`/api/unitType/deactivate?id=${unitType.id}`, {
+            method: "POST",
+          })
+        : await fetch(`/api/unitType/update?id=${unitType.id}`, {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ active: true }),
+          });
+
+      if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: `Error: Could not ${unitType.active ? "deactivate" : "activate"} unit type.`,
+          description: `A problem occured while attempting to update unit type (id: ${unitType.id}).`,
+        });
+        throw new Error("Failed to update the unit type");
+      }
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["unitTypes"] });
+      await queryClient.invalidateQueries({ queryKey: ["unitGroups"] });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingUnitTypeId(null);
+    unitTypeForm.reset(emptyUnitType);
+    setOpen(true);
+  };
+
+  const openEdit = (unitType: UnitType) => {
+    setEditingUnitTypeId(unitType.id);
+    unitTypeForm.reset({
+      id: unitType.id,
+      name: unitType.name,
+      defaultLength: unitType.defaultLength,
+      allowDrivers: unitType.allowDrivers,
+      unitGroupId: unitType.unitGroupId,
+      mandatoryField: unitType.mandatoryField ?? "",
+      unitNumberAvailable: unitType.unitNumberAvailable,
+    });
+    setOpen(true);
+  };
+
+  function onSubmit(values: UnitTypeValues) {
+    saveUnitTypeMutation.mutate(values);
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Unit Types | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <div className="flex w-full flex-col">
+          <div className="my-6">
+            {canEdit && (
+              <Button variant="default" onClick={openCreate}>
+                Create
+              </Button>
+            )}
+            <Sheet open={open} onOpenChange={setOpen}>
+              <SheetContent side="left">
+                <SheetHeader>
+                  <SheetTitle>
+                    {editingUnitTypeId
+                      ? "Edit Unit Type"
+                      : "Create New Unit Type"}
+                  </SheetTitle>
+                </SheetHeader>
+                <Form {...unitTypeForm}>
+                  <form
+                    onSubmit={(event) =>
+                      void unitTypeForm.handleSubmit(onSubmit)(event)
+                    }
+                  >
+                    <div className="mt-6">
+                      <FormField
+                        control={unitTypeForm.control}
+                        name="id"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Code</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="e.g. 20FL"
+                                disabled={!!editingUnitTypeId}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={unitTypeForm.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={unitTypeForm.control}
+                        name="defaultLength"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Default length (m)</FormLabel>
+                            <FormControl>
+                              <Input type="number" step="0.01" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={unitTypeForm.control}
+                        name="unitGroupId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Unit group</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select a Unit Group" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {unitGroups?.map((unitGroup) => (
+                                  <SelectItem
+                                    key={unitGroup.id}
+                                    value={unitGroup.id}
+                                  >
+                                    {unitGroup.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={unitTypeForm.control}
+                        name="mandatoryField"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Mandatory field</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g. UnitNumber" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={unitTypeForm.control}
+                        name="allowDrivers"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(checked === true)
+                                }
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">
+                              Allow drivers
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={unitTypeForm.control}
+                        name="unitNumberAvailable"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(checked === true)
+                                }
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">
+                              Unit number available
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <SheetFooter>
+                      <Button type="submit" className="mt-6">
+                        Save Unit Type
+                      </Button>
+                    </SheetFooter>
+                  </form>
+                </Form>
+              </SheetContent>
+            </Sheet>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Default length</TableHead>
+                <TableHead>Group</TableHead>
+                <TableHead>Drivers</TableHead>
+                <TableHead>Unit number</TableHead>
+                <TableHead>Mandatory field</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>&nbsp;</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unitTypes?.map((unitType) => (
+                <TableRow
+                  key={unitType.id}
+                  className={cn(!unitType.active && "text-muted-foreground")}
+                >
+                  <TableCell>{unitType.id}</TableCell>
+                  <TableCell>{unitType.name}</TableCell>
+                  <TableCell align="right">{unitType.defaultLength}</TableCell>
+                  <TableCell>
+                    {unitGroups?.find(({ id }) => id === unitType.unitGroupId)
+                      ?.name ?? unitType.unitGroupId}
+                  </TableCell>
+                  <TableCell>{unitType.allowDrivers ? "Yes" : "No"}</TableCell>
+                  <TableCell>
+                    {unitType.unitNumberAvailable ? "Yes" : "No"}
+                  </TableCell>
+                  <TableCell>{unitType.mandatoryField ?? "-"}</TableCell>
+                  <TableCell>
+                    {unitType.active ? "Active" : "Inactive"}
+                  </TableCell>
+                  <TableCell className="space-x-2 whitespace-nowrap">
+                    {canEdit && (
+                      <>
+                        <Button
+                          onClick={() => openEdit(unitType)}
+                          variant="outline"
+                          title="Edit"
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          onClick={() => setActiveMutation.mutate(unitType)}
+                          variant={
+                            unitType.active ? "destructive" : "secondary"
+                          }
+                        >
+                          {unitType.active ? "Deactivate" : "Activate"}
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </Layout>
+    </>
+  );
+}
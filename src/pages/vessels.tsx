@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import Head from "next/head";
+import Link from "next/link";
+import CalendarSubscribeButton from "~/components/calendar-subscribe-button";
+import Layout from "~/components/layout";
+import { Button } from "~/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "~/components/ui/form";
+import { Input } from "~/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "~/components/ui/popover";
+import {
+  Sheet,
+  SheetContent,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "~/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table";
+import { ToastAction } from "~/components/ui/toast";
+import { useToast } from "~/components/ui/use-toast";
+import { hasRole } from "~/schemas/user";
+import { type VesselValues, vesselSchema } from "~/schemas/vessel";
+import {
+  applyApiError,
+  fetchData,
+  formatPortTime,
+  toQueryString,
+} from "~/utils";
+import type { DeletedVessel, VesselInUseBody } from "./api/vessel/delete";
+import type { VesselWithVoyages } from "./api/vessel/getAllWithVoyages";
+
+const emptyVessel: VesselValues = {
+  name: "",
+  laneMeterCapacity: 0,
+};
+
+export default function Vessels() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: session } = useSession();
+  const canEdit = hasRole(session?.user.role, "admin");
+
+  const [open, setOpen] = useState(false);
+  const [editingVesselId, setEditingVesselId] = useState<string | null>(null);
+
+  const vesselForm = useForm<VesselValues>({
+    resolver: zodResolver(vesselSchema),
+    defaultValues: emptyVessel,
+  });
+
+  const { data: vessels } = useQuery<VesselWithVoyages[]>({
+    queryKey: ["vessels", "withVoyages"],
+    queryFn: () => fetchData("vessel/getAllWithVoyages"),
+  });
+
+  const saveVesselMutation = useMutation({
+    mutationFn: async (vesselData: VesselValues) => {
+      const response = await fetch(
+        editingVesselId
+          ? `/api/vessel/update?id=${editingVesselId}`
+          : `/api/vessel/create`,
+        {
+          method: editingVesselId ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(vesselData),
+        },
+      );
+
+      if (response.status === 400) {
+        await applyApiError(
+          response,
+          vesselForm,
+          "Error: Could not save vessel.",
+        );
+
+        throw new Error("Vessel failed server validation");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not save vessel.",
+          description: `A problem occured while attempting to save vessel.`,
+        });
+        throw new Error("Failed to save the vessel");
+      } else {
+        toast({
+          variant: "default",
+          description: `Vessel succesfully saved.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      vesselForm.reset(emptyVessel);
+      setOpen(false);
+      await queryClient.invalidateQueries({ queryKey: ["vessels"] });
+    },
+  });
+
+  const deleteVesselMutation = useMutation({
+    mutationFn: async ({
+      vesselId,
+      purgeDeleted = false,
+    }: {
+      vesselId: string;
+      purgeDeleted?: boolean;
+    }) => {
+      const response = await fetch(
+        `/api/vessel/delete?${toQueryString({ id: vesselId, purgeDeleted: purgeDeleted ? "true" : undefined })}`,
+        { method: "DELETE" },
+      );
+
+      if (response.status === 409) {
+        const { message, details } = (await response.json()) as VesselInUseBody;
+        if (details.voyageCount > 0) {
+          toast({
+            variant: "destructive",
+            title: "Error: Vessel is still in use.",
+            description: `${message} Reassign or delete those voyages first.`,
+          });
+        } else {
+          toast({
+            variant: "destructive",
+            title: "Error: Vessel has deleted voyages.",
+            description: `${message} Their bookings are removed as well.`,
+            action: (
+              <ToastAction
+                altText="Delete anyway"
+                onClick={() =>
+                  deleteVesselMutation.mutate({ vesselId, purgeDeleted: true })
+                }
+              >
+                Delete anyway
+              </ToastAction>
+            ),
+          });
+        }
+        throw new Error("Vessel is still in use");
+      } else if (!response.ok) {
+        toast({
+          variant: "destructive",
+          title: "Error: Could not delete vessel.",
+          description: `A problem occured while attempting to delete vessel (id: ${vesselId}).`,
+        });
+        throw new Error("Failed to delete the vessel");
+      } else {
+        const { purgedVoyageCount } = (await response.json()) as DeletedVessel;
+        toast({
+          variant: "default",
+          description: purgedVoyageCount
+            ? `Vessel succesfully deleted, together with ${purgedVoyageCount} deleted voyage(s).`
+            : `Vessel succesfully deleted.`,
+        });
+      }
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["vessels"] });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingVesselId(null);
+    vesselForm.reset(emptyVessel);
+    setOpen(true);
+  };
+
+  const openEdit = (vessel: VesselWithVoyages) => {
+    setEditingVesselId(vessel.id);
+    vesselForm.reset({
+      name: vessel.name,
+      laneMeterCapacity: vessel.laneMeterCapacity,
+    });
+    setOpen(true);
+  };
+
+  function onSubmit(values: VesselValues) {
+    saveVesselMutation.mutate(values);
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Vessels | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <div className="flex w-full flex-col">
+          <div className="my-6">
+            {canEdit && (
+              <Button variant="default" onClick={openCreate}>
+                Create
+              </Button>
+            )}
+            <Sheet open={open} onOpenChange={setOpen}>
+              <SheetContent side="left">
+                <SheetHeader>
+                  <SheetTitle>
+                    {editingVesselId ? "Edit Vessel" : "Create New Vessel"}
+                  </SheetTitle>
+                </SheetHeader>
+                <Form {...vesselForm}>
+                  <form
+                    onSubmit={(event) =>
+                      void vesselForm.handleSubmit(onSubmit)(event)
+                    }
+                  >
+                    <div className="mt-6">
+                      <FormField
+                        control={vesselForm.control}
+                        name="name"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <div className="mt-6">
+                      <FormField
+                        control={vesselForm.control}
+                        name="laneMeterCapacity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Lane meter capacity</FormLabel>
+                            <FormControl>
+                              <Input type="number" step="0.1" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <SheetFooter>
+                      <Button type="submit" className="mt-6">
+                        Save Vessel
+                      </Button>
+                    </SheetFooter>
+                  </form>
+                </Form>
+              </SheetContent>
+            </Sheet>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Lane meters</TableHead>
+                <TableHead>Upcoming voyages</TableHead>
+                <TableHead>Total voyages</TableHead>
+                <TableHead>&nbsp;</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vessels?.map((vessel) => (
+                <TableRow key={vessel.id}>
+                  <TableCell>{vessel.name}</TableCell>
+                  <TableCell>{vessel.laneMeterCapacity}</TableCell>
+                  <TableCell>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="ghost" title="Click to see more.">
+                          {vessel.voyages.length}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-96">
+                        <div className="space-y-2">
+                          <h4 className="font-medium leading-none">
+                            Upcoming voyages
+                          </h4>
+                          {vessel.voyages.length === 0 && (
+                            <p className="text-sm text-muted-foreground">
+                              No upcoming voyages.
+                            </p>
+                          )}
+                          <ul className="space-y-1 text-sm">
+                            {vessel.voyages.map((voyage) => (
+                              <li key={voyage.id}>
+                                <Link
+                                  href={`/voyages/${voyage.id}`}
+                                  className="hover:underline"
+                                >
+                                  {formatPortTime(
+                                    voyage.scheduledDeparture,
+                                    voyage.portOfLoading.timezone,
+                                  )}{" "}
+                                  {voyage.portOfLoading.name} &rarr;{" "}
+                                  {voyage.portOfDischarge.name}
+                                </Link>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </PopoverContent>
+                    </Popover>
+                  </TableCell>
+                  <TableCell>{vessel._count.voyages}</TableCell>
+                  <TableCell className="space-x-2 whitespace-nowrap">
+                    <CalendarSubscribeButton
+                      params={{ vesselId: vessel.id }}
+                      title="Copies the link of the calendar feed of this vessel's voyages, to subscribe from a calendar app."
+                    />
+                    {canEdit && (
+                      <>
+                        <Button
+                          onClick={() => openEdit(vessel)}
+                          variant="outline"
+                          title="Edit"
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          onClick={() =>
+                            deleteVesselMutation.mutate({ vesselId: vessel.id })
+                          }
+                          variant="destructive"
+                          title="Delete"
+                        >
+                          X
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSession } from "next-auth/react";
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import Layout from "~/components/layout";
+import { Button } from "~/components/ui/button";
+import UnitTypeTable from "~/components/unit-type-table";
+import UtilizationBar from "~/components/utilization-bar";
+import VoyageBookings from "~/components/voyage-bookings";
+import VoyageDelayBadge from "~/components/voyage-delay-badge";
+import VoyageHistoryPanel from "~/components/voyage-history";
+import VoyageStatusActions from "~/components/voyage-status-actions";
+import VoyageStatusBadge from "~/components/voyage-status-badge";
+import VoyageTimesForm from "~/components/voyage-times-form";
+import {
+  FetchError,
+  fetchData,
+  formatPortTime,
+  formatTransitTime,
+} from "~/utils";
+import { hasRole } from "~/schemas/user";
+import type { VoyageDetail } from "../api/voyage/[id]";
+
+export default function VoyagePage() {
+  const router = useRouter();
+  const id = router.query.id as string | undefined;
+  const [tab, setTab] = useState<"details" | "bookings" | "history">("details");
+  const { data: session } = useSession();
+  const canEdit = hasRole(session?.user.role, "planner");
+
+  const { data: voyage, error } = useQuery<VoyageDetail>({
+    queryKey: ["voyages", id],
+    queryFn: () => fetchData(`voyage/${id}`),
+    enabled: !!id,
+  });
+
+  const departure = voyage && new Date(voyage.scheduledDeparture);
+  const arrival = voyage && new Date(voyage.scheduledArrival);
+
+  return (
+    <>
+      <Head>
+        <title>Voyage | DFDS</title>
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <Layout>
+        <div className="flex w-full flex-col">
+          <div className="my-6">
+            <Link
+              href="/"
+              className="text-sm text-muted-foreground hover:underline"
+            >
+              &larr; All voyages
+            </Link>
+          </div>
+          {error && (
+            <p>
+              {error instanceof FetchError && error.status === 404
+                ? "Voyage not found."
+                : "A problem occured while loading the voyage."}
+            </p>
+          )}
+          {voyage && departure && arrival && (
+            <div className="space-y-6">
+              {voyage.deletedAt && (
+                <p className="text-destructive">
+                  This voyage was deleted. It can be restored from the voyage
+                  list.
+                </p>
+              )}
+              <h1 className="text-2xl font-semibold">
+                {voyage.portOfLoading.name} &rarr; {voyage.portOfDischarge.name}
+              </h1>
+              <div className="flex gap-2">
+                <Button
+                  variant={tab === "details" ? "default" : "outline"}
+                  onClick={() => setTab("details")}
+                >
+                  Details
+                </Button>
+                <Button
+                  variant={tab === "bookings" ? "default" : "outline"}
+                  onClick={() => setTab("bookings")}
+                >
+                  Bookings ({voyage.utilization.bookingCount})
+                </Button>
+                <Button
+                  variant={tab === "history" ? "default" : "outline"}
+                  onClick={() => setTab("history")}
+                >
+                  History
+                </Button>
+              </div>
+              {tab === "details" && (
+                <>
+                  <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-2">
+                    <dt className="text-muted-foreground">Status</dt>
+                    <dd className="flex flex-wrap items-center gap-4">
+                      <VoyageStatusBadge status={voyage.status} />
+                      {voyage.cancellationReason && (
+                        <span className="text-sm text-muted-foreground">
+                          {voyage.cancellationReason}
+                        </span>
+                      )}
+                      {canEdit && !voyage.deletedAt && (
+                        <VoyageStatusActions
+                          voyageId={voyage.id}
+                          status={voyage.status}
+                        />
+                      )}
+                    </dd>
+                    <dt className="text-muted-foreground">Vessel</dt>
+                    <dd>{voyage.vessel.name}</dd>
+                    <dt className="text-muted-foreground">Port of loading</dt>
+                    <dd>
+                      {voyage.portOfLoading.name} ({voyage.portOfLoading.id})
+                    </dd>
+                    <dt className="text-muted-foreground">Port of discharge</dt>
+                    <dd>
+                      {voyage.portOfDischarge.name} ({voyage.portOfDischarge.id}
+                      )
+                    </dd>
+                    <dt className="text-muted-foreground">Departure</dt>
+                    <dd className="flex items-center gap-2">
+                      {formatPortTime(departure, voyage.portOfLoading.timezone)}
+                      <VoyageDelayBadge
+                        scheduled={voyage.scheduledDeparture}
+                        actual={voyage.actualDeparture}
+                        estimated={voyage.estimatedDeparture}
+                      />
+                    </dd>
+                    <dt className="text-muted-foreground">Arrival</dt>
+                    <dd className="flex items-center gap-2">
+                      {formatPortTime(arrival, voyage.portOfDischarge.timezone)}
+                      <VoyageDelayBadge
+                        scheduled={voyage.scheduledArrival}
+                        actual={voyage.actualArrival}
+                        estimated={voyage.estimatedArrival}
+                      />
+                    </dd>
+                    <dt className="text-muted-foreground">Duration</dt>
+                    <dd>{formatTransitTime(departure, arrival)}</dd>
+                    <dt className="text-muted-foreground">Utilization</dt>
+                    <dd className="flex items-center gap-2">
+                      <UtilizationBar utilization={voyage.utilization} />
+                      <span className="text-sm text-muted-foreground">
+                        {voyage.utilization.bookedLaneMeters.toFixed(1)} /{" "}
+                        {voyage.utilization.capacityLaneMeters} lane meters
+                      </span>
+                    </dd>
+                  </dl>
+                  <div className="space-y-2">
+                    <h2 className="text-lg font-medium">
+                      Unit Types ({voyage.unitTypes.length})
+                    </h2>
+                    <UnitTypeTable unitTypes={voyage.unitTypes} />
+                  </div>
+                  {canEdit &&
+                    !voyage.deletedAt &&
+                    voyage.status !== "cancelled" && (
+                      <div className="space-y-2">
+                        <h2 className="text-lg font-medium">Reported times</h2>
+                        <VoyageTimesForm voyage={voyage} />
+                      </div>
+                    )}
+                </>
+              )}
+              {tab === "bookings" && (
+                <VoyageBookings
+                  voyageId={voyage.id}
+                  status={voyage.status}
+                  unitTypes={voyage.unitTypes}
+                  readOnly={!canEdit}
+                />
+              )}
+              {tab === "history" && (
+                <VoyageHistoryPanel
+                  voyageId={voyage.id}
+                  portOfLoading={voyage.portOfLoading}
+                  portOfDischarge={voyage.portOfDischarge}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </Layout>
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+import { type ZodError, z } from "zod";
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Codes of the errors the API responds with. Clients can rely on them, unlike
+ * on the messages.
+ */
+export const apiErrorCodes = [
+  "badRequest",
+  "validationFailed",
+  "unauthorized",
+  "forbidden",
+  "notFound",
+  "methodNotAllowed",
+  "conflict",
+  "scheduleConflict",
+  "idempotencyKeyReused",
+  "tooManyRequests",
+  "internalError",
+] as const;
+
+export type ApiErrorCode = (typeof apiErrorCodes)[number];
+
+/**
+ * Body of every error response. `details` depends on the code, e.g. the field
+ * issues of a `validationFailed` error.
+ */
+export type ErrorBody<Details = unknown> = {
+  code: ApiErrorCode;
+  message: string;
+  details?: Details;
+};
+
+/**
+ * Body returned with a 400 response when a request fails schema validation.
+ * Issue paths match the form field names so they can be passed to `setError`.
+ */
+export type ValidationErrorBody = ErrorBody<ValidationIssue[]> & {
+  code: "validationFailed";
+  details: ValidationIssue[];
+};
+
+export const toValidationIssues = (error: ZodError): ValidationIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+
+/** Query of the routes that act on a single record, given as `?id=`. */
+export const idQuerySchema = z.object({
+  id: z
+    .string({ required_error: "ID is a required parameter." })
+    .min(1, { message: "ID is a required parameter." }),
+});
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import type { Role } from "~/schemas/user";
+
+export const apiKeyScopes = ["voyages:read", "voyages:write", "admin"] as const;
+
+export type ApiKeyScope = (typeof apiKeyScopes)[number];
+
+/**
+ * The rights each scope grants, as the role a signed-in user would need for
+ * the same routes: `voyages:read` reads all schedule data, `voyages:write`
+ * also changes voyages, schedules and bookings, and `admin` also manages
+ * master data and API keys.
+ */
+export const scopeRoles: Record<ApiKeyScope, Role> = {
+  "voyages:read": "viewer",
+  "voyages:write": "planner",
+  admin: "admin",
+};
+
+export const apiKeyScopeLabels: Record<ApiKeyScope, string> = {
+  "voyages:read": "Read voyages",
+  "voyages:write": "Write voyages",
+  admin: "Admin",
+};
+
+/**
+ * An API key as entered in the key form and as accepted by
+ * `/api/apiKey/create`.
+ */
+export const apiKeySchema = z.object({
+  name: z
+    .string({ required_error: "Name is a required field." })
+    .trim()
+    .min(1, {
+      message: "Name is a required field.",
+    }),
+  scopes: z
+    .array(z.enum(apiKeyScopes))
+    .min(1, { message: "Select at least one scope." }),
+});
+
+export type ApiKeyValues = z.infer<typeof apiKeySchema>;
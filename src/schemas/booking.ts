@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+/** Optional free text field where an empty input means the value is not set. */
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform((value) => (value === "" ? undefined : value));
+
+/**
+ * Shape of a booking as entered in the booking form and as accepted by
+ * `/api/booking/create`. A booking is either a quantity of units, or a single
+ * unit identified by its unit number.
+ */
+export const bookingSchema = z
+  .object({
+    voyageId: z.string({ required_error: "Voyage is a required field." }),
+    unitTypeId: z
+      .string({ required_error: "Unit type is a required field." })
+      .min(1, {
+        message: "Unit type is a required field.",
+      }),
+    quantity: z.coerce
+      .number()
+      .int()
+      .min(1, { message: "Quantity must be at least one." })
+      .default(1),
+    unitNumber: optionalText,
+    customerReference: optionalText,
+  })
+  .refine((data) => !data.unitNumber || data.quantity === 1, {
+    message: "A booking with a unit number is for a single unit.",
+    path: ["quantity"],
+  });
+
+export type BookingValues = z.infer<typeof bookingSchema>;
+
+/** Query of `/api/booking/getAll`. */
+export const bookingListQuerySchema = z.object({
+  voyageId: z.string({ required_error: "Voyage is a required parameter." }),
+});
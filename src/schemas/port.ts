@@ -0,0 +1,6 @@
+import { z } from "zod";
+
+/** Query of `/api/port/getAll`. */
+export const portListQuerySchema = z.object({
+  search: z.string().trim().optional(),
+});
@@ -0,0 +1,65 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { z } from "zod";
+import { voyageFields } from "~/schemas/voyage";
+
+const dayField = (message: string) =>
+  z
+    .string({ required_error: message })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message });
+
+/** Longest date range a single rule may cover. */
+export const MAX_SCHEDULE_DAYS = 366;
+
+/**
+ * Rule for a series of voyages on one route, as entered on the schedule page
+ * and as accepted by `/api/schedule/preview` and `/api/schedule/create`.
+ * Weekdays use `getDay` numbering (0 is Sunday), dates are `yyyy-MM-dd` and
+ * the departure time is `HH:mm`. With `alternate`, every other voyage sails
+ * the route back, as a vessel shuttling between two ports does.
+ */
+export const scheduleSchema = voyageFields
+  .pick({
+    vessel: true,
+    portOfLoading: true,
+    portOfDischarge: true,
+    unitTypes: true,
+  })
+  .extend({
+    weekdays: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, { message: "Select at least one weekday." }),
+    departureTime: z
+      .string({ required_error: "Departure time is a required field." })
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, {
+        message: "Departure time is a required field.",
+      }),
+    durationMinutes: z.coerce
+      .number()
+      .int()
+      .positive({ message: "Transit duration must be positive." }),
+    startDate: dayField("A start date is required."),
+    endDate: dayField("An end date is required."),
+    exceptionDates: z.array(dayField("Invalid date.")).default([]),
+    alternate: z.boolean().default(false),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: "End date must not be before start date.",
+    path: ["endDate"],
+  })
+  .refine(
+    (data) =>
+      differenceInCalendarDays(
+        parseISO(data.endDate),
+        parseISO(data.startDate),
+      ) < MAX_SCHEDULE_DAYS,
+    {
+      message: `A schedule can cover at most ${MAX_SCHEDULE_DAYS} days.`,
+      path: ["endDate"],
+    },
+  )
+  .refine((data) => data.portOfLoading !== data.portOfDischarge, {
+    message: "Port of discharge must differ from port of loading.",
+    path: ["portOfDischarge"],
+  });
+
+export type ScheduleValues = z.infer<typeof scheduleSchema>;
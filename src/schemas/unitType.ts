@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+/**
+ * Shape of a unit type as entered in the unit type form and as accepted by
+ * `/api/unitType/create`. Numbers are coerced because form inputs yield strings.
+ */
+export const unitTypeSchema = z.object({
+  id: z
+    .string({ required_error: "Code is a required field." })
+    .trim()
+    .min(1, {
+      message: "Code is a required field.",
+    }),
+  name: z
+    .string({ required_error: "Name is a required field." })
+    .trim()
+    .min(1, {
+      message: "Name is a required field.",
+    }),
+  defaultLength: z.coerce.number().positive({
+    message: "Default length must be a positive number.",
+  }),
+  allowDrivers: z.boolean().default(false),
+  unitGroupId: z
+    .string({ required_error: "Unit group is a required field." })
+    .trim()
+    .min(1, {
+      message: "Unit group is a required field.",
+    }),
+  mandatoryField: z.string().trim().optional(),
+  unitNumberAvailable: z.boolean().default(false),
+});
+
+export type UnitTypeValues = z.infer<typeof unitTypeSchema>;
+
+/**
+ * Partial changes accepted by `/api/unitType/update`. The code is the primary
+ * key and cannot be changed; `active` allows reactivating a unit type.
+ */
+export const unitTypeUpdateSchema = unitTypeSchema
+  .omit({ id: true })
+  .partial()
+  .extend({ active: z.boolean().optional() });
+
+export type UnitTypeUpdateValues = z.infer<typeof unitTypeUpdateSchema>;
+
+/** Query of `/api/unitType/getAll`. */
+export const unitTypeListQuerySchema = z.object({
+  includeInactive: z.enum(["true", "false"]).optional(),
+});
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+/** Roles in increasing order of rights: each role can do what the ones before it can. */
+export const roles = ["viewer", "planner", "admin"] as const;
+
+export type Role = (typeof roles)[number];
+
+/**
+ * Whether a user with `role` has at least the rights of `required`. Unknown or
+ * missing roles have no rights.
+ */
+export const hasRole = (role: string | undefined, required: Role) =>
+  roles.indexOf(role as Role) >= roles.indexOf(required);
+
+/**
+ * Credentials entered on the sign-in page.
+ */
+export const signInSchema = z.object({
+  email: z
+    .string({ required_error: "Email is a required field." })
+    .trim()
+    .email({ message: "Enter a valid email address." }),
+  password: z
+    .string({ required_error: "Password is a required field." })
+    .min(1, { message: "Password is a required field." }),
+});
+
+export type SignInValues = z.infer<typeof signInSchema>;
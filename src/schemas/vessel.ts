@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { idQuerySchema } from "~/schemas/api";
+
+/**
+ * Shape of a vessel as entered in the vessel form and as accepted by
+ * `/api/vessel/create` and `/api/vessel/update`. Numbers are coerced because
+ * form inputs yield strings.
+ */
+export const vesselSchema = z.object({
+  name: z
+    .string({ required_error: "Name is a required field." })
+    .trim()
+    .min(1, {
+      message: "Name is a required field.",
+    }),
+  laneMeterCapacity: z.coerce.number().min(0, {
+    message: "Lane meter capacity cannot be negative.",
+  }),
+});
+
+export type VesselValues = z.infer<typeof vesselSchema>;
+
+/**
+ * Query of `/api/vessel/delete`. Deleted voyages of the vessel are only
+ * removed with it when `purgeDeleted` confirms it, as they cannot be restored
+ * afterwards.
+ */
+export const vesselDeleteQuerySchema = idQuerySchema.extend({
+  purgeDeleted: z.enum(["true", "false"]).optional(),
+});
@@ -0,0 +1,304 @@
+import { z } from "zod";
+
+/**
+ * Accepts a `Date` (from the form) or an ISO string (from a JSON request body).
+ * @param message Error shown when the value is missing or not a date.
+ * @returns A schema that parses the value to a `Date`.
+ */
+const dateField = (message: string) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? new Date(value) : value),
+    z.date({ required_error: message, invalid_type_error: message }),
+  );
+
+export const voyageFields = z.object({
+  departure: dateField("A date is required."),
+  arrival: dateField("A date is required."),
+  vessel: z
+    .string({ required_error: "Vessel is a required field." })
+    .min(2, {
+      message: "Vessel is a required field.",
+    }),
+  portOfLoading: z
+    .string({ required_error: "Port of loading is a required field." })
+    .min(1, {
+      message: "Port of loading is a required field.",
+    }),
+  portOfDischarge: z
+    .string({ required_error: "Port of discharge is a required field." })
+    .min(1, {
+      message: "Port of discharge is a required field.",
+    }),
+  unitTypes: z
+    .array(z.string(), {
+      required_error: "You have to select at least five Unit Types.",
+    })
+    .refine((value) => value.length >= 5, {
+      message: "You have to select at least five Unit Types.",
+    }),
+});
+
+/**
+ * Shape of a voyage as entered in the form and as accepted by `/api/voyage/create`.
+ */
+export const voyageSchema = voyageFields
+  .refine((data) => data.departure < data.arrival, {
+    message: "Departure must be before arrival date.",
+    path: ["arrival"],
+  })
+  .refine((data) => data.portOfLoading !== data.portOfDischarge, {
+    message: "Port of discharge must differ from port of loading.",
+    path: ["portOfDischarge"],
+  });
+
+export type VoyageValues = z.infer<typeof voyageSchema>;
+
+const unitTypeIds = z.array(z.string());
+
+/**
+ * Partial changes accepted by `/api/voyage/update`. Unit types can be replaced
+ * with `set` or adjusted with `connect` / `disconnect`. Cross-field rules are
+ * checked against the merged voyage with `voyageSchema`.
+ */
+export const voyageUpdateSchema = voyageFields.partial().extend({
+  unitTypes: z
+    .object({
+      set: unitTypeIds.optional(),
+      connect: unitTypeIds.optional(),
+      disconnect: unitTypeIds.optional(),
+    })
+    .optional(),
+});
+
+export type VoyageUpdateValues = z.infer<typeof voyageUpdateSchema>;
+
+export const voyageStatuses = [
+  "planned",
+  "openForBooking",
+  "closed",
+  "departed",
+  "arrived",
+  "cancelled",
+] as const;
+
+export type VoyageStatus = (typeof voyageStatuses)[number];
+
+/**
+ * Statuses a voyage can move to from each status. Arrived and cancelled
+ * voyages are final.
+ */
+export const voyageTransitions: Record<VoyageStatus, VoyageStatus[]> = {
+  planned: ["openForBooking", "cancelled"],
+  openForBooking: ["closed", "cancelled"],
+  closed: ["openForBooking", "departed", "cancelled"],
+  departed: ["arrived"],
+  arrived: [],
+  cancelled: [],
+};
+
+/**
+ * Whether the voyage has sailed. Its schedule is then history and can no
+ * longer be edited or deleted.
+ */
+export const hasDeparted = (status: string) =>
+  status === "departed" || status === "arrived";
+
+/** Whether bookings can be added to the voyage. */
+export const isOpenForBooking = (status: string) => status === "openForBooking";
+
+/**
+ * Body accepted by `/api/voyage/transition`. Cancelling needs a reason.
+ */
+export const voyageTransitionSchema = z
+  .object({
+    status: z.enum(voyageStatuses, {
+      errorMap: () => ({ message: "Select a status." }),
+    }),
+    reason: z.string().trim().optional(),
+  })
+  .refine((data) => data.status !== "cancelled" || !!data.reason, {
+    message: "A reason is required to cancel a voyage.",
+    path: ["reason"],
+  });
+
+export type VoyageTransitionValues = z.infer<typeof voyageTransitionSchema>;
+
+/**
+ * A reported time: a date, or null to clear a time reported earlier.
+ */
+const reportedTime = z.preprocess(
+  (value) => (typeof value === "string" ? new Date(value) : value),
+  z.date({ invalid_type_error: "Enter a valid date." }).nullable().optional(),
+);
+
+/**
+ * Body accepted by `/api/voyage/reportTimes`. Times that are left out keep
+ * their reported value.
+ */
+export const voyageTimesSchema = z
+  .object({
+    estimatedDeparture: reportedTime,
+    estimatedArrival: reportedTime,
+    actualDeparture: reportedTime,
+    actualArrival: reportedTime,
+  })
+  .refine(
+    (data) =>
+      !data.estimatedDeparture ||
+      !data.estimatedArrival ||
+      data.estimatedDeparture < data.estimatedArrival,
+    {
+      message: "Estimated departure must be before estimated arrival.",
+      path: ["estimatedArrival"],
+    },
+  )
+  .refine(
+    (data) =>
+      !data.actualDeparture ||
+      !data.actualArrival ||
+      data.actualDeparture < data.actualArrival,
+    {
+      message: "Actual departure must be before actual arrival.",
+      path: ["actualArrival"],
+    },
+  )
+  .refine((data) => !data.actualArrival || !!data.actualDeparture, {
+    message: "Report the actual departure before the actual arrival.",
+    path: ["actualDeparture"],
+  })
+  .refine((data) => !data.actualArrival || data.actualArrival <= new Date(), {
+    message: "The actual arrival cannot be in the future.",
+    path: ["actualArrival"],
+  })
+  .refine(
+    (data) => !data.actualDeparture || data.actualDeparture <= new Date(),
+    {
+      message: "The actual departure cannot be in the future.",
+      path: ["actualDeparture"],
+    },
+  );
+
+export type VoyageTimesValues = z.infer<typeof voyageTimesSchema>;
+
+/**
+ * Query string accepted by `/api/voyage/performance`.
+ */
+export const voyagePerformanceQuerySchema = z
+  .object({
+    from: z.coerce.date({
+      errorMap: () => ({ message: "Enter a start date." }),
+    }),
+    to: z.coerce.date({ errorMap: () => ({ message: "Enter an end date." }) }),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: "The period must end after it starts.",
+    path: ["to"],
+  });
+
+export const voyageSortFields = [
+  "departure",
+  "arrival",
+  "portOfLoading",
+  "portOfDischarge",
+  "vessel",
+  "unitTypes",
+] as const;
+
+export type VoyageSortField = (typeof voyageSortFields)[number];
+
+/**
+ * Query string accepted by `/api/voyage/getAll`. Every value arrives as a
+ * string, so numbers and dates are coerced.
+ */
+export const voyageListQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  sortBy: z.enum(voyageSortFields).default("departure"),
+  sortOrder: z.enum(["asc", "desc"]).default("asc"),
+  vesselId: z.string().optional(),
+  portOfLoading: z.string().optional(),
+  portOfDischarge: z.string().optional(),
+  departureFrom: z.coerce.date().optional(),
+  departureTo: z.coerce.date().optional(),
+  unitTypeId: z.string().optional(),
+  unitGroupId: z.string().optional(),
+  includeDeleted: z.enum(["true", "false"]).optional(),
+  status: z.enum(voyageStatuses).optional(),
+});
+
+export type VoyageListQuery = z.infer<typeof voyageListQuerySchema>;
+export type VoyageListParams = Partial<Record<keyof VoyageListQuery, string>>;
+
+/**
+ * Body accepted by `/api/voyage/bulk`: one action applied to every listed
+ * voyage.
+ */
+export const voyageBulkSchema = z.object({
+  ids: z
+    .array(z.string())
+    .min(1, { message: "Select at least one voyage." })
+    .max(100, { message: "Select at most 100 voyages." }),
+  action: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("delete") }),
+    z.object({
+      type: z.literal("reassignVessel"),
+      vessel: z.string().min(1, { message: "Vessel is a required field." }),
+    }),
+    z.object({
+      type: z.literal("shift"),
+      hours: z.coerce
+        .number()
+        .int()
+        .refine((hours) => hours !== 0, {
+          message: "Shift by at least one hour.",
+        }),
+    }),
+    z.object({
+      type: z.enum(["addUnitTypes", "removeUnitTypes"]),
+      unitTypes: unitTypeIds.min(1, { message: "Select a Unit Type." }),
+    }),
+  ]),
+});
+
+export type VoyageBulkValues = z.infer<typeof voyageBulkSchema>;
+export type VoyageBulkAction = VoyageBulkValues["action"];
+
+/**
+ * Body accepted by `/api/voyage/import`. With `dryRun` every row is checked
+ * but nothing is saved.
+ */
+export const voyageImportSchema = z.object({
+  csv: z
+    .string({ required_error: "Choose a CSV file." })
+    .trim()
+    .min(1, { message: "The file is empty." }),
+  dryRun: z.boolean().default(true),
+});
+
+export type VoyageImportValues = z.infer<typeof voyageImportSchema>;
+
+/**
+ * Query string accepted by `/api/voyage/export`: the filters and sort order of
+ * the voyage list, and the file format.
+ */
+export const voyageExportQuerySchema = voyageListQuerySchema
+  .omit({ cursor: true, limit: true })
+  .extend({
+    format: z.enum(["csv", "xlsx"]).default("csv"),
+  });
+
+export type VoyageExportQuery = z.infer<typeof voyageExportQuerySchema>;
+
+/**
+ * Query string accepted by `/api/voyage/calendar.ics`: a vessel, a route, or
+ * both, and the API key the feed is read with.
+ */
+export const voyageCalendarQuerySchema = voyageListQuerySchema
+  .pick({
+    vesselId: true,
+    portOfLoading: true,
+    portOfDischarge: true,
+  })
+  .extend({
+    key: z.string().optional(),
+  });
@@ -0,0 +1,174 @@
+import { Prisma } from "@prisma/client";
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { ZodError, type ZodType, type ZodTypeAny, type z } from "zod";
+import {
+  type ApiErrorCode,
+  type ErrorBody,
+  type ValidationIssue,
+  toValidationIssues,
+} from "~/schemas/api";
+
+const httpMethods = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+type HttpMethod = (typeof httpMethods)[number];
+
+const errorStatuses: Record<ApiErrorCode, number> = {
+  badRequest: 400,
+  validationFailed: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  notFound: 404,
+  methodNotAllowed: 405,
+  conflict: 409,
+  scheduleConflict: 409,
+  idempotencyKeyReused: 422,
+  tooManyRequests: 429,
+  internalError: 500,
+};
+
+/**
+ * An error to respond with. Throw it from a handler of `createApiHandler`; the
+ * status follows from the code.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  get status() {
+    return errorStatuses[this.code];
+  }
+}
+
+export const validationFailed = (issues: ValidationIssue[]) =>
+  new ApiError("validationFailed", "Validation failed.", issues);
+
+function sendError(res: NextApiResponse, error: ApiError) {
+  res.status(error.status).json({
+    code: error.code,
+    message: error.message,
+    details: error.details,
+  } satisfies ErrorBody);
+}
+
+/**
+ * Maps what a handler threw to the error to respond with: zod errors to a
+ * 400, and Prisma errors for a missing record to a 404, for a duplicate to a
+ * 409 and for invalid data to a 400. Anything else is a 500.
+ */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (error instanceof ZodError) {
+    return validationFailed(toValidationIssues(error));
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    switch (error.code) {
+      case "P2025":
+        return new ApiError("notFound", "The record was not found.");
+      case "P2002":
+        return new ApiError(
+          "conflict",
+          "A record with the same values already exists.",
+          error.meta?.target,
+        );
+      case "P2003":
+        return new ApiError(
+          "badRequest",
+          "A referenced record does not exist.",
+          error.meta?.field_name,
+        );
+      case "P2000":
+      case "P2006":
+      case "P2007":
+      case "P2011":
+      case "P2012":
+        return new ApiError("badRequest", "The data is not valid.");
+    }
+  }
+
+  if (error instanceof Prisma.PrismaClientValidationError) {
+    return new ApiError("badRequest", "The data is not valid.");
+  }
+
+  return new ApiError("internalError", "Something went wrong.");
+}
+
+type MethodHandler = (req: NextApiRequest, res: NextApiResponse) => unknown;
+
+/**
+ * Builds the handler of an API route from one handler per HTTP method. Other
+ * methods get a 405 with an `Allow` header. Errors thrown by the handlers are
+ * sent as an `ErrorBody`, see `toApiError`. Wrap the method handlers, not the
+ * route, in `withRole`, `withRateLimit` and `withIdempotency`, so a wrong
+ * method is answered first and their errors are sent the same way.
+ */
+export function createApiHandler(
+  methods: Partial<Record<HttpMethod, MethodHandler>>,
+): NextApiHandler {
+  const allowed = httpMethods.filter((method) => methods[method]);
+
+  return async (req, res) => {
+    const handler = methods[req.method as HttpMethod];
+
+    if (!handler) {
+      res.setHeader("Allow", allowed.join(", "));
+      sendError(
+        res,
+        new ApiError(
+          "methodNotAllowed",
+          `Only ${allowed.join(", ")} is supported on this endpoint.`,
+        ),
+      );
+      return;
+    }
+
+    try {
+      await handler(req, res);
+    } catch (error) {
+      const apiError = toApiError(error);
+
+      if (apiError.code === "internalError") {
+        console.error(error);
+      }
+
+      if (!res.headersSent) {
+        sendError(res, apiError);
+      }
+    }
+  };
+}
+
+/**
+ * Wraps a method handler so it receives the query and body parsed by the given
+ * schemas. Requests that do not match get a 400 listing the issues.
+ */
+export function withInput<
+  Query extends ZodTypeAny = ZodType<NextApiRequest["query"]>,
+  Body extends ZodTypeAny = ZodType<unknown>,
+>(
+  schemas: { query?: Query; body?: Body },
+  handler: (
+    req: NextApiRequest,
+    res: NextApiResponse,
+    input: { query: z.output<Query>; body: z.output<Body> },
+  ) => unknown,
+): MethodHandler {
+  return (req, res) =>
+    handler(req, res, {
+      query: (schemas.query
+        ? schemas.query.parse(req.query)
+        : req.query) as z.output<Query>,
+      body: (schemas.body
+        ? schemas.body.parse(req.body)
+        : req.body) as z.output<Body>,
+    });
+}
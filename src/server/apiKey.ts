@@ -0,0 +1,52 @@
+import type { ApiKey } from "@prisma/client";
+import { createHash, randomBytes } from "crypto";
+import { type ApiKeyScope, apiKeyScopes, scopeRoles } from "~/schemas/apiKey";
+import { type Role, roles } from "~/schemas/user";
+
+const KEY_PREFIX = "dfds_";
+
+/** An API key as returned by the API, without its hash. */
+export type ApiKeyListItem = Omit<ApiKey, "keyHash" | "scopes"> & {
+  scopes: ApiKeyScope[];
+};
+
+/**
+ * Keys are random, so a plain SHA-256 is enough to store them and lets a
+ * presented key be looked up by its hash.
+ */
+export const hashApiKey = (key: string) =>
+  createHash("sha256").update(key).digest("hex");
+
+/**
+ * Creates a new random key. The key itself is only shown once; store the
+ * hash and the prefix.
+ */
+export function generateApiKey() {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    key,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    keyHash: hashApiKey(key),
+  };
+}
+
+export const parseScopes = (scopes: string) =>
+  scopes
+    .split(",")
+    .filter((scope): scope is ApiKeyScope =>
+      apiKeyScopes.includes(scope as ApiKeyScope),
+    );
+
+/** The highest role granted by the scopes, if any. */
+export const getScopeRole = (scopes: ApiKeyScope[]): Role | undefined =>
+  [...roles]
+    .reverse()
+    .find((role) => scopes.some((scope) => scopeRoles[scope] === role));
+
+export function toApiKeyListItem({
+  keyHash: _keyHash,
+  scopes,
+  ...apiKey
+}: ApiKey): ApiKeyListItem {
+  return { ...apiKey, scopes: parseScopes(scopes) };
+}
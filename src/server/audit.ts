@@ -0,0 +1,132 @@
+import type { Prisma, Voyage, VoyageAuditEntry } from "@prisma/client";
+import type { NextApiRequest } from "next";
+import type { AuthenticatedRequest } from "~/server/auth";
+
+export const auditActions = [
+  "create",
+  "update",
+  "delete",
+  "restore",
+  "status",
+  "times",
+] as const;
+
+export type AuditAction = (typeof auditActions)[number];
+
+/** The audited fields of a voyage, in the shape stored in audit entries. */
+export type VoyageSnapshot = {
+  departure: string;
+  arrival: string;
+  portOfLoading: string;
+  portOfDischarge: string;
+  vessel: string;
+  unitTypes: string[];
+  deletedAt: string | null;
+  status: string;
+  cancellationReason: string | null;
+  estimatedDeparture: string | null;
+  estimatedArrival: string | null;
+  actualDeparture: string | null;
+  actualArrival: string | null;
+};
+
+export type AuditChanges = Partial<{
+  [Field in keyof VoyageSnapshot]: {
+    before: VoyageSnapshot[Field] | null;
+    after: VoyageSnapshot[Field] | null;
+  };
+}>;
+
+export type AuditEntry = Omit<VoyageAuditEntry, "action" | "changes"> & {
+  action: AuditAction;
+  changes: AuditChanges;
+};
+
+/**
+ * Name recorded as the author of a change: the email of the signed-in user, or
+ * the name and prefix of the API key. Only requests that passed `withRole`
+ * have one.
+ */
+export function getActor(req: NextApiRequest): string {
+  const { caller } = req as Partial<AuthenticatedRequest>;
+
+  if (!caller) {
+    return "anonymous";
+  }
+
+  return caller.type === "user"
+    ? caller.email
+    : `${caller.name} (API key ${caller.prefix})`;
+}
+
+export function toSnapshot(
+  voyage: Voyage & { unitTypes: { id: string }[] },
+): VoyageSnapshot {
+  return {
+    departure: voyage.scheduledDeparture.toISOString(),
+    arrival: voyage.scheduledArrival.toISOString(),
+    portOfLoading: voyage.portOfLoadingId,
+    portOfDischarge: voyage.portOfDischargeId,
+    vessel: voyage.vesselId,
+    unitTypes: voyage.unitTypes.map(({ id }) => id).sort(),
+    deletedAt: voyage.deletedAt?.toISOString() ?? null,
+    status: voyage.status,
+    cancellationReason: voyage.cancellationReason,
+    estimatedDeparture: voyage.estimatedDeparture?.toISOString() ?? null,
+    estimatedArrival: voyage.estimatedArrival?.toISOString() ?? null,
+    actualDeparture: voyage.actualDeparture?.toISOString() ?? null,
+    actualArrival: voyage.actualArrival?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Lists the fields that differ between two snapshots. A missing snapshot
+ * stands for a voyage that does not exist yet.
+ */
+export function diffSnapshots(
+  before: VoyageSnapshot | null,
+  after: VoyageSnapshot,
+): AuditChanges {
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+
+  (Object.keys(after) as (keyof VoyageSnapshot)[]).forEach((field) => {
+    const previous = before?.[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(after[field])) {
+      changes[field] = { before: previous, after: after[field] };
+    }
+  });
+
+  return changes as AuditChanges;
+}
+
+/**
+ * Appends an audit entry for a voyage. Pass the transaction client so the entry
+ * is only written when the change itself is.
+ */
+export async function recordVoyageAudit(
+  tx: Prisma.TransactionClient,
+  entry: {
+    voyageId: string;
+    action: AuditAction;
+    actor: string;
+    before: VoyageSnapshot | null;
+    after: VoyageSnapshot;
+  },
+) {
+  await tx.voyageAuditEntry.create({
+    data: {
+      voyageId: entry.voyageId,
+      action: entry.action,
+      actor: entry.actor,
+      changes: JSON.stringify(diffSnapshots(entry.before, entry.after)),
+    },
+  });
+}
+
+export function toAuditEntry(entry: VoyageAuditEntry): AuditEntry {
+  return {
+    ...entry,
+    action: entry.action as AuditAction,
+    changes: JSON.parse(entry.changes) as AuditChanges,
+  };
+}
@@ -0,0 +1,220 @@
+import type {
+  GetServerSidePropsContext,
+  NextApiHandler,
+  NextApiRequest,
+  NextApiResponse,
+} from "next";
+import {
+  type DefaultSession,
+  type NextAuthOptions,
+  getServerSession,
+} from "next-auth";
+import CredentialsProvider from "next-auth/providers/credentials";
+import { env } from "~/env.mjs";
+import { ApiError } from "~/server/api";
+import { getScopeRole, hashApiKey, parseScopes } from "~/server/apiKey";
+import { prisma } from "~/server/db";
+import { verifyPassword } from "~/server/password";
+import type { ApiKeyScope } from "~/schemas/apiKey";
+import { type Role, hasRole, signInSchema } from "~/schemas/user";
+
+declare module "next-auth" {
+  interface Session extends DefaultSession {
+    user: DefaultSession["user"] & {
+      id: string;
+      role: string;
+    };
+  }
+
+  interface User {
+    role: string;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    id: string;
+    role: string;
+  }
+}
+
+/**
+ * Sign-in with the email and password of a `User`. Sessions are kept in a JWT
+ * cookie, as the credentials provider does not support database sessions.
+ */
+export const authOptions: NextAuthOptions = {
+  secret: env.NEXTAUTH_SECRET,
+  session: { strategy: "jwt" },
+  pages: { signIn: "/signin" },
+  callbacks: {
+    jwt: ({ token, user }) =>
+      user ? { ...token, id: user.id, role: user.role } : token,
+    session: ({ session, token }) => ({
+      ...session,
+      user: { ...session.user, id: token.id, role: token.role },
+    }),
+  },
+  providers: [
+    CredentialsProvider({
+      credentials: {
+        email: { label: "Email", type: "email" },
+        password: { label: "Password", type: "password" },
+      },
+      async authorize(credentials) {
+        const result = signInSchema.safeParse(credentials);
+
+        if (!result.success) {
+          return null;
+        }
+
+        const user = await prisma.user.findUnique({
+          where: { email: result.data.email.toLowerCase() },
+        });
+
+        if (
+          !user ||
+          !(await verifyPassword(result.data.password, user.passwordHash))
+        ) {
+          return null;
+        }
+
+        return {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        };
+      },
+    }),
+  ],
+};
+
+export const getServerAuthSession = (ctx: {
+  req: GetServerSidePropsContext["req"] | NextApiRequest;
+  res: GetServerSidePropsContext["res"] | NextApiResponse;
+}) => getServerSession(ctx.req, ctx.res, authOptions);
+
+/**
+ * Whoever a guarded request is made by: a signed-in user, or a system using an
+ * API key. For keys, `role` is the highest role their scopes grant.
+ */
+export type Caller =
+  | {
+      type: "user";
+      id: string;
+      name: string;
+      email: string;
+      role: Role;
+    }
+  | {
+      type: "apiKey";
+      id: string;
+      name: string;
+      prefix: string;
+      scopes: ApiKeyScope[];
+      role: Role | undefined;
+    };
+
+export type AuthenticatedRequest = NextApiRequest & { caller: Caller };
+
+const getUserCaller = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+): Promise<Caller | null> => {
+  const session = await getServerAuthSession({ req, res });
+  const user =
+    session &&
+    (await prisma.user.findUnique({ where: { id: session.user.id } }));
+
+  return (
+    user && {
+      type: "user",
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role as Role,
+    }
+  );
+};
+
+/**
+ * Looks up a key that is not revoked and records that it was used.
+ */
+export const getApiKeyCaller = async (key: string): Promise<Caller | null> => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  const scopes = parseScopes(apiKey.scopes);
+
+  return {
+    type: "apiKey",
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes,
+    role: getScopeRole(scopes),
+  };
+};
+
+/**
+ * Wraps an API handler so it only runs for signed-in users with at least the
+ * rights of `role`, or for requests with an `Authorization: Bearer` API key
+ * whose scopes grant them. Others get a 401, or a 403 when their role falls
+ * short. The user or key is read from the database on every request, so role
+ * changes, removed users and revoked keys take effect right away. The handler
+ * finds the caller in `req.caller`. Use it per method in `createApiHandler`,
+ * which sends the errors it throws.
+ */
+export function withRole(role: Role, handler: NextApiHandler): NextApiHandler {
+  return async (req, res) => {
+    const bearer = /^Bearer (.+)$/i.exec(req.headers.authorization ?? "")?.[1];
+    const caller = bearer
+      ? await getApiKeyCaller(bearer.trim())
+      : await getUserCaller(req, res);
+
+    if (!caller) {
+      throw new ApiError(
+        "unauthorized",
+        bearer ? "The API key is not valid." : "Sign in to continue.",
+      );
+    }
+
+    if (!hasRole(caller.role, role)) {
+      throw new ApiError("forbidden", "You are not allowed to do this.");
+    }
+
+    (req as AuthenticatedRequest).caller = caller;
+
+    return handler(req, res);
+  };
+}
+
+/**
+ * Identifies who a request comes from for rate limiting and idempotency: the
+ * caller when the request passed `withRole`, otherwise the client address.
+ */
+export function getClientId(req: NextApiRequest): string {
+  const { caller } = req as Partial<AuthenticatedRequest>;
+
+  if (caller) {
+    return `${caller.type}:${caller.id}`;
+  }
+
+  const forwardedFor = req.headers["x-forwarded-for"];
+  const address =
+    typeof forwardedFor === "string"
+      ? forwardedFor.split(",")[0]?.trim()
+      : req.socket.remoteAddress;
+
+  return `address:${address ?? "unknown"}`;
+}
@@ -0,0 +1,75 @@
+export type CalendarEvent = {
+  /** Stable identifier, so calendar apps update the event instead of adding one. */
+  uid: string;
+  /** Increases with every change of the event. */
+  sequence: number;
+  start: Date;
+  end: Date;
+  updatedAt: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  cancelled?: boolean;
+};
+
+const escapeText = (text: string) =>
+  text.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n");
+
+// UTC in the basic format of RFC 5545, e.g. 20240601T130000Z.
+const formatDate = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// Lines longer than 75 octets of UTF-8 are continued on lines starting with a
+// space, which counts towards the 75 octets. Code points are never split.
+function fold(line: string): string {
+  const parts = [""];
+  let length = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (length + size > 75) {
+      parts.push("");
+      length = 1;
+    }
+    parts[parts.length - 1] += char;
+    length += size;
+  }
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Renders events as an iCalendar (RFC 5545) document.
+ */
+export function toICalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DFDS//Voyages//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap((event) => [
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTAMP:${formatDate(event.updatedAt)}`,
+      `LAST-MODIFIED:${formatDate(event.updatedAt)}`,
+      `DTSTART:${formatDate(event.start)}`,
+      `DTEND:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description
+        ? [`DESCRIPTION:${escapeText(event.description)}`]
+        : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
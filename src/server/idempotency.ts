@@ -0,0 +1,130 @@
+import { Prisma } from "@prisma/client";
+import { createHash } from "crypto";
+import type { NextApiHandler, NextApiRequest } from "next";
+import { ApiError } from "~/server/api";
+import { getClientId } from "~/server/auth";
+import { prisma } from "~/server/db";
+
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Requests still in progress after this long are taken to have died, e.g.
+// with the process, so the key can be tried again.
+const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+const hashRequest = (req: NextApiRequest) =>
+  createHash("sha256")
+    .update(`${req.method} ${req.url} ${JSON.stringify(req.body ?? null)}`)
+    .digest("hex");
+
+/**
+ * Wraps an API handler so requests with an `Idempotency-Key` header are only
+ * handled once per client within 24 hours. A repeated key replays the stored
+ * response with an `Idempotent-Replayed` header, e.g. when a timed out request
+ * is tried again after it went through. Only successful responses are kept,
+ * so a failed request can be tried again with the same key. Reusing a key for
+ * a different request gives a 422, and repeating it while the first request is
+ * still handled gives a 409, for at most 5 minutes. Requests without the
+ * header are handled as usual.
+ */
+export function withIdempotency(handler: NextApiHandler): NextApiHandler {
+  return async (req, res) => {
+    const key = req.headers["idempotency-key"];
+
+    if (key === undefined) {
+      return handler(req, res);
+    }
+
+    if (typeof key !== "string" || !key || key.length > MAX_KEY_LENGTH) {
+      throw new ApiError(
+        "badRequest",
+        `Idempotency-Key must be a single value of at most ${MAX_KEY_LENGTH} characters.`,
+      );
+    }
+
+    await prisma.idempotencyRecord.deleteMany({
+      where: {
+        OR: [
+          { createdAt: { lt: new Date(Date.now() - IDEMPOTENCY_WINDOW_MS) } },
+          {
+            status: null,
+            createdAt: { lt: new Date(Date.now() - IN_PROGRESS_TIMEOUT_MS) },
+          },
+        ],
+      },
+    });
+
+    const clientId = getClientId(req);
+    const requestHash = hashRequest(req);
+    const existing = await prisma.idempotencyRecord.findUnique({
+      where: { clientId_key: { clientId, key } },
+    });
+
+    if (existing && existing.requestHash !== requestHash) {
+      throw new ApiError(
+        "idempotencyKeyReused",
+        "This Idempotency-Key was already used for another request.",
+      );
+    }
+
+    if (existing?.status) {
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(existing.status);
+      existing.body ? res.json(JSON.parse(existing.body)) : res.end();
+      return;
+    }
+
+    const inProgress = new ApiError(
+      "conflict",
+      "A request with this Idempotency-Key is still in progress.",
+    );
+
+    if (existing) {
+      throw inProgress;
+    }
+
+    const record = await prisma.idempotencyRecord
+      .create({ data: { clientId, key, requestHash } })
+      .catch((error) => {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          return null;
+        }
+        throw error;
+      });
+
+    if (!record) {
+      throw inProgress;
+    }
+
+    // Keeps what the handler sends so it can be stored after it finished.
+    let body: unknown;
+    const json = res.json.bind(res);
+    res.json = (value: unknown) => {
+      body = value;
+      return json(value);
+    };
+
+    // The record may already be gone when the request took longer than
+    // `IN_PROGRESS_TIMEOUT_MS`, hence the `many` variants.
+    try {
+      await handler(req, res);
+    } catch (error) {
+      await prisma.idempotencyRecord.deleteMany({ where: { id: record.id } });
+      throw error;
+    }
+
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      await prisma.idempotencyRecord.updateMany({
+        where: { id: record.id },
+        data: {
+          status: res.statusCode,
+          body: body === undefined ? null : JSON.stringify(body),
+        },
+      });
+    } else {
+      await prisma.idempotencyRecord.deleteMany({ where: { id: record.id } });
+    }
+  };
+}
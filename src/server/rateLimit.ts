@@ -0,0 +1,54 @@
+import type { NextApiHandler } from "next";
+import { ApiError } from "~/server/api";
+import { getClientId } from "~/server/auth";
+import { prisma } from "~/server/db";
+
+const RATE_LIMIT_REQUESTS = 60;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/**
+ * Wraps a mutating API handler so each client can make at most
+ * `RATE_LIMIT_REQUESTS` requests per minute, counted in fixed windows in the
+ * database. Requests over the limit get a 429 with `Retry-After` set to the
+ * seconds until the window ends. Place it inside `withRole` so requests are
+ * counted per user or API key.
+ */
+export function withRateLimit(handler: NextApiHandler): NextApiHandler {
+  return async (req, res) => {
+    const clientId = getClientId(req);
+    const now = Date.now();
+    const windowStart = new Date(now - (now % RATE_LIMIT_WINDOW_MS));
+
+    const { count } = await prisma.rateLimitWindow.upsert({
+      where: { clientId_windowStart: { clientId, windowStart } },
+      create: { clientId, windowStart, count: 1 },
+      update: { count: { increment: 1 } },
+    });
+
+    if (count === 1) {
+      // First request of the client in this window, clear the ones before.
+      await prisma.rateLimitWindow.deleteMany({
+        where: { windowStart: { lt: windowStart } },
+      });
+    }
+
+    res.setHeader("X-RateLimit-Limit", RATE_LIMIT_REQUESTS);
+    res.setHeader(
+      "X-RateLimit-Remaining",
+      Math.max(0, RATE_LIMIT_REQUESTS - count),
+    );
+
+    if (count > RATE_LIMIT_REQUESTS) {
+      const retryAfter = Math.ceil(
+        (windowStart.getTime() + RATE_LIMIT_WINDOW_MS - now) / 1000,
+      );
+      res.setHeader("Retry-After", retryAfter);
+      throw new ApiError(
+        "tooManyRequests",
+        `Too many requests. Try again in ${retryAfter} seconds.`,
+      );
+    }
+
+    return handler(req, res);
+  };
+}
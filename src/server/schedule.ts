@@ -0,0 +1,148 @@
+import {
+  addMinutes,
+  eachDayOfInterval,
+  format,
+  getDay,
+  parseISO,
+} from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
+import { env } from "~/env.mjs";
+import { prisma } from "~/server/db";
+import type { ValidationIssue } from "~/schemas/api";
+import type { ScheduleValues } from "~/schemas/schedule";
+import {
+  type ScheduleConflict,
+  findScheduleConflicts,
+  validateVoyageReferences,
+} from "~/server/voyage";
+
+export type ScheduleOccurrence = {
+  departure: Date;
+  arrival: Date;
+  portOfLoading: string;
+  portOfDischarge: string;
+  conflicts: ScheduleConflict[];
+};
+
+/**
+ * Lists the voyages produced by a schedule rule, skipping weekdays that are
+ * not selected and exception dates. With `alternate`, every other voyage sails
+ * from the port of discharge back to the port of loading. The departure time
+ * is the local time at the voyage's port of loading, looked up in
+ * `timeZones`, and the transit duration is added as elapsed time, so arrivals
+ * stay right across DST changes.
+ */
+export function expandSchedule(
+  values: ScheduleValues,
+  timeZones: Record<string, string>,
+): Omit<ScheduleOccurrence, "conflicts">[] {
+  return eachDayOfInterval({
+    start: parseISO(values.startDate),
+    end: parseISO(values.endDate),
+  })
+    .filter((day) => values.weekdays.includes(getDay(day)))
+    .map((day) => format(day, "yyyy-MM-dd"))
+    .filter((date) => !values.exceptionDates.includes(date))
+    .map((date, index) => {
+      const [portOfLoading, portOfDischarge] =
+        values.alternate && index % 2 === 1
+          ? [values.portOfDischarge, values.portOfLoading]
+          : [values.portOfLoading, values.portOfDischarge];
+      const departure = fromZonedTime(
+        `${date}T${values.departureTime}`,
+        timeZones[portOfLoading] ?? "UTC",
+      );
+      return {
+        departure,
+        arrival: addMinutes(departure, values.durationMinutes),
+        portOfLoading,
+        portOfDischarge,
+      };
+    });
+}
+
+/**
+ * Timezones of the schedule's ports by id. Unknown ports are left out and fall
+ * back to UTC; the reference check reports them.
+ */
+async function getTimeZones(
+  values: ScheduleValues,
+): Promise<Record<string, string>> {
+  const ports = await prisma.port.findMany({
+    where: { id: { in: [values.portOfLoading, values.portOfDischarge] } },
+  });
+  return Object.fromEntries(ports.map((port) => [port.id, port.timezone]));
+}
+
+/**
+ * Checks the rule itself: the referenced records exist, it produces at least
+ * one voyage and the voyages of the series leave enough turnaround time
+ * between each other and each start in the port the previous one ends in.
+ * Issues use the same paths as the schedule form.
+ */
+export async function validateSchedule(
+  values: ScheduleValues,
+): Promise<ValidationIssue[]> {
+  const issues = await validateVoyageReferences(values);
+  const occurrences = expandSchedule(values, await getTimeZones(values));
+
+  if (occurrences.length === 0) {
+    issues.push({
+      path: "weekdays",
+      message: "The schedule does not produce any voyages.",
+    });
+  }
+
+  const pairs = occurrences.flatMap((occurrence, index) => {
+    const previous = occurrences[index - 1];
+    return previous ? [[previous, occurrence] as const] : [];
+  });
+
+  const clashes = pairs.some(
+    ([previous, occurrence]) =>
+      occurrence.departure <
+      addMinutes(previous.arrival, env.MIN_TURNAROUND_MINUTES),
+  );
+
+  if (clashes) {
+    issues.push({
+      path: "durationMinutes",
+      message: `Voyages in the series must be at least ${env.MIN_TURNAROUND_MINUTES} minutes apart.`,
+    });
+  }
+
+  const discontinuous = pairs.some(
+    ([previous, occurrence]) =>
+      occurrence.portOfLoading !== previous.portOfDischarge,
+  );
+
+  if (discontinuous) {
+    issues.push({
+      path: "alternate",
+      message:
+        "Voyages in the series must start in the port the previous one ends in. Alternate the direction, or create one voyage at a time.",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Expands a schedule rule and checks every voyage against the vessel's
+ * existing voyages.
+ */
+export async function previewSchedule(
+  values: ScheduleValues,
+): Promise<ScheduleOccurrence[]> {
+  const timeZones = await getTimeZones(values);
+
+  return Promise.all(
+    expandSchedule(values, timeZones).map(async (occurrence) => ({
+      ...occurrence,
+      conflicts: await findScheduleConflicts({
+        vessel: values.vessel,
+        ...occurrence,
+      }),
+    })),
+  );
+}
@@ -0,0 +1,320 @@
+import type { Prisma, UnitType, Voyage } from "@prisma/client";
+import { addMinutes } from "date-fns";
+import { env } from "~/env.mjs";
+import type { ErrorBody, ValidationIssue } from "~/schemas/api";
+import type {
+  VoyageListQuery,
+  VoyageSortField,
+  VoyageUpdateValues,
+  VoyageValues,
+} from "~/schemas/voyage";
+import { ApiError } from "~/server/api";
+import { prisma } from "~/server/db";
+
+/**
+ * Relations returned with a voyage by the voyage endpoints.
+ */
+export const voyageInclude = {
+  vessel: true,
+  portOfLoading: true,
+  portOfDischarge: true,
+  unitTypes: true,
+  bookings: {
+    where: { cancelledAt: null },
+    select: { id: true, unitTypeId: true, quantity: true },
+  },
+} satisfies Prisma.VoyageInclude;
+
+export type VoyageWithRelations = Prisma.VoyageGetPayload<{
+  include: typeof voyageInclude;
+}>;
+
+export type Utilization = {
+  /** Number of bookings that are not cancelled. */
+  bookingCount: number;
+  bookedLaneMeters: number;
+  capacityLaneMeters: number;
+  /** Booked share of the capacity, or null when the vessel has no capacity set. */
+  ratio: number | null;
+  /** True when the ratio is above `UTILIZATION_WARNING_THRESHOLD`. */
+  warning: boolean;
+};
+
+export type VoyageWithUtilization = VoyageWithRelations & {
+  utilization: Utilization;
+};
+
+const orderByField: Record<
+  VoyageSortField,
+  (order: Prisma.SortOrder) => Prisma.VoyageOrderByWithRelationInput
+> = {
+  departure: (order) => ({ scheduledDeparture: order }),
+  arrival: (order) => ({ scheduledArrival: order }),
+  portOfLoading: (order) => ({ portOfLoading: { name: order } }),
+  portOfDischarge: (order) => ({ portOfDischarge: { name: order } }),
+  vessel: (order) => ({ vessel: { name: order } }),
+  unitTypes: (order) => ({ unitTypes: { _count: order } }),
+};
+
+/**
+ * Sort order of the voyage list. The id tiebreaker keeps the order stable for
+ * cursor pagination.
+ */
+export function toVoyageListOrderBy(
+  query: Pick<VoyageListQuery, "sortBy" | "sortOrder">,
+): Prisma.VoyageOrderByWithRelationInput[] {
+  return [orderByField[query.sortBy](query.sortOrder), { id: "asc" }];
+}
+
+/**
+ * Filters of the voyage list. Deleted voyages are left out unless asked for.
+ */
+export function toVoyageListWhere(
+  query: Omit<VoyageListQuery, "cursor" | "limit" | "sortBy" | "sortOrder">,
+): Prisma.VoyageWhereInput {
+  return {
+    vesselId: query.vesselId,
+    portOfLoadingId: query.portOfLoading,
+    portOfDischargeId: query.portOfDischarge,
+    deletedAt: query.includeDeleted === "true" ? undefined : null,
+    status: query.status,
+    scheduledDeparture: {
+      gte: query.departureFrom,
+      lte: query.departureTo,
+    },
+    AND: [
+      query.unitTypeId ? { unitTypes: { some: { id: query.unitTypeId } } } : {},
+      query.unitGroupId
+        ? { unitTypes: { some: { unitGroupId: query.unitGroupId } } }
+        : {},
+    ],
+  };
+}
+
+/**
+ * Adds lane meter utilization to a voyage. Every booked unit takes up the
+ * default length of its unit type.
+ */
+export function withUtilization(
+  voyage: VoyageWithRelations,
+): VoyageWithUtilization {
+  const bookedLaneMeters = voyage.bookings.reduce((sum, booking) => {
+    const unitType = voyage.unitTypes.find(
+      ({ id }) => id === booking.unitTypeId,
+    );
+    return sum + booking.quantity * (unitType?.defaultLength ?? 0);
+  }, 0);
+  const capacityLaneMeters = voyage.vessel.laneMeterCapacity;
+  const ratio =
+    capacityLaneMeters > 0 ? bookedLaneMeters / capacityLaneMeters : null;
+
+  return {
+    ...voyage,
+    utilization: {
+      bookingCount: voyage.bookings.length,
+      bookedLaneMeters,
+      capacityLaneMeters,
+      ratio,
+      warning: ratio !== null && ratio > env.UTILIZATION_WARNING_THRESHOLD,
+    },
+  };
+}
+
+/**
+ * Applies partial changes on top of a stored voyage so the result can be
+ * validated with the same rules as the create form.
+ */
+export function mergeVoyage(
+  current: Voyage & { unitTypes: UnitType[] },
+  changes: VoyageUpdateValues,
+): VoyageValues {
+  const { set, connect = [], disconnect = [] } = changes.unitTypes ?? {};
+  const unitTypes = new Set(set ?? current.unitTypes.map(({ id }) => id));
+  connect.forEach((id) => unitTypes.add(id));
+  disconnect.forEach((id) => unitTypes.delete(id));
+
+  return {
+    departure: changes.departure ?? current.scheduledDeparture,
+    arrival: changes.arrival ?? current.scheduledArrival,
+    portOfLoading: changes.portOfLoading ?? current.portOfLoadingId,
+    portOfDischarge: changes.portOfDischarge ?? current.portOfDischargeId,
+    vessel: changes.vessel ?? current.vesselId,
+    unitTypes: [...unitTypes],
+  };
+}
+
+/**
+ * Refuses to drop unit types from a voyage while active bookings use them.
+ */
+export function validateBookedUnitTypes(
+  bookings: { unitTypeId: string }[],
+  unitTypes: string[],
+): ValidationIssue[] {
+  return bookings.some(({ unitTypeId }) => !unitTypes.includes(unitTypeId))
+    ? [
+        {
+          path: "unitTypes",
+          message: "Unit types with active bookings cannot be removed.",
+        },
+      ]
+    : [];
+}
+
+/**
+ * Checks that the vessel, ports and unit types referenced by a voyage exist,
+ * and that inactive unit types are not newly linked. Issues use the same
+ * paths as the voyage form.
+ *
+ * @param linkedUnitTypes Unit types the voyage is already linked to, which
+ * stay valid after they are deactivated.
+ */
+export async function validateVoyageReferences(
+  values: Pick<
+    VoyageValues,
+    "vessel" | "portOfLoading" | "portOfDischarge" | "unitTypes"
+  >,
+  db: Prisma.TransactionClient = prisma,
+  linkedUnitTypes: string[] = [],
+): Promise<ValidationIssue[]> {
+  const [vessel, ports, unitTypes] = await Promise.all([
+    db.vessel.findUnique({ where: { id: values.vessel } }),
+    db.port.findMany({
+      where: { id: { in: [values.portOfLoading, values.portOfDischarge] } },
+    }),
+    db.unitType.findMany({
+      where: { id: { in: values.unitTypes } },
+      select: { id: true, active: true },
+    }),
+  ]);
+
+  const issues: ValidationIssue[] = [];
+  const portExists = (id: string) => ports.some((port) => port.id === id);
+  const inactiveUnitTypes = unitTypes
+    .filter(({ id, active }) => !active && !linkedUnitTypes.includes(id))
+    .map(({ id }) => id);
+
+  if (!vessel) {
+    issues.push({ path: "vessel", message: "Unknown vessel." });
+  }
+  if (!portExists(values.portOfLoading)) {
+    issues.push({ path: "portOfLoading", message: "Unknown port." });
+  }
+  if (!portExists(values.portOfDischarge)) {
+    issues.push({ path: "portOfDischarge", message: "Unknown port." });
+  }
+  if (unitTypes.length !== new Set(values.unitTypes).size) {
+    issues.push({ path: "unitTypes", message: "Unknown unit type." });
+  }
+  if (inactiveUnitTypes.length) {
+    issues.push({
+      path: "unitTypes",
+      message: `Inactive unit types cannot be added: ${inactiveUnitTypes.join(", ")}.`,
+    });
+  }
+
+  return issues;
+}
+
+export type ScheduleConflict = {
+  voyageId: string;
+  reason: "overlap" | "turnaround" | "portContinuity";
+  message: string;
+};
+
+/**
+ * Body returned with a 409 response when a voyage clashes with other voyages
+ * of the same vessel.
+ */
+export type ScheduleConflictBody = ErrorBody<ScheduleConflict[]> & {
+  code: "scheduleConflict";
+  details: ScheduleConflict[];
+};
+
+export const scheduleConflict = (conflicts: ScheduleConflict[]) =>
+  new ApiError(
+    "scheduleConflict",
+    "The voyage conflicts with the vessel's schedule.",
+    conflicts,
+  );
+
+/**
+ * Finds voyages of the same vessel that the given schedule clashes with. A
+ * voyage conflicts when it overlaps, when it leaves less than
+ * `MIN_TURNAROUND_MINUTES` in port, or when the adjacent voyage does not end
+ * (or start) in the port this voyage starts (or ends) in. Deleted and
+ * cancelled voyages are ignored.
+ *
+ * @param excludeVoyageId Voyage being updated, which never conflicts with itself.
+ * @param db Transaction to read the schedule from, when checking changes that
+ * are not committed yet.
+ */
+export async function findScheduleConflicts(
+  values: Pick<
+    VoyageValues,
+    "departure" | "arrival" | "portOfLoading" | "portOfDischarge" | "vessel"
+  >,
+  excludeVoyageId?: string,
+  db: Prisma.TransactionClient = prisma,
+): Promise<ScheduleConflict[]> {
+  const turnaround = env.MIN_TURNAROUND_MINUTES;
+  const where = {
+    vesselId: values.vessel,
+    id: excludeVoyageId ? { not: excludeVoyageId } : undefined,
+    deletedAt: null,
+    status: { not: "cancelled" },
+  } satisfies Prisma.VoyageWhereInput;
+
+  const [nearby, previous, next] = await Promise.all([
+    db.voyage.findMany({
+      where: {
+        ...where,
+        scheduledDeparture: { lt: addMinutes(values.arrival, turnaround) },
+        scheduledArrival: { gt: addMinutes(values.departure, -turnaround) },
+      },
+      orderBy: { scheduledDeparture: "asc" },
+    }),
+    db.voyage.findFirst({
+      where: { ...where, scheduledArrival: { lte: values.departure } },
+      orderBy: { scheduledArrival: "desc" },
+    }),
+    db.voyage.findFirst({
+      where: { ...where, scheduledDeparture: { gte: values.arrival } },
+      orderBy: { scheduledDeparture: "asc" },
+    }),
+  ]);
+
+  const overlaps = (voyage: Voyage) =>
+    voyage.scheduledDeparture < values.arrival &&
+    voyage.scheduledArrival > values.departure;
+
+  const conflicts: ScheduleConflict[] = nearby.map((voyage) =>
+    overlaps(voyage)
+      ? {
+          voyageId: voyage.id,
+          reason: "overlap",
+          message: "The vessel is already sailing at this time.",
+        }
+      : {
+          voyageId: voyage.id,
+          reason: "turnaround",
+          message: `The vessel needs at least ${turnaround} minutes in port between voyages.`,
+        },
+  );
+
+  if (previous && previous.portOfDischargeId !== values.portOfLoading) {
+    conflicts.push({
+      voyageId: previous.id,
+      reason: "portContinuity",
+      message: `The vessel's previous voyage ends in ${previous.portOfDischargeId}, not ${values.portOfLoading}.`,
+    });
+  }
+  if (next && next.portOfLoadingId !== values.portOfDischarge) {
+    conflicts.push({
+      voyageId: next.id,
+      reason: "portContinuity",
+      message: `The vessel's next voyage starts in ${next.portOfLoadingId}, not ${values.portOfDischarge}.`,
+    });
+  }
+
+  return conflicts;
+}
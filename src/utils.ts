@@ -1,9 +1,22 @@
 import { type ClassValue, clsx } from "clsx";
+import { differenceInMinutes } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
 import { twMerge } from "tailwind-merge";
+import { toast } from "~/components/ui/use-toast";
+import { ON_TIME_TOLERANCE_MINUTES, TABLE_DATE_FORMAT } from "~/constants";
+import type { ErrorBody, ValidationErrorBody } from "~/schemas/api";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export class FetchError extends Error {
+  constructor(public status: number) {
+    super("Network response was not ok");
+  }
+}
+
 /**
  * Relative path /api/${path}
  * @param path
@@ -13,8 +26,116 @@ export async function fetchData(path: string) {
   const response = await fetch(`/api/${path}`);
 
   if (!response.ok) {
-    throw new Error("Network response was not ok");
+    throw new FetchError(response.status);
   }
 
   return response.json();
 }
+
+/**
+ * Reads the body of a 400 response. Only `validationFailed` errors list field
+ * issues; other bad requests, e.g. data the database rejected, only come with
+ * a message, so the issues are empty.
+ */
+export async function readValidationError(response: Response) {
+  const body = (await response.json()) as ErrorBody;
+  return {
+    message: body.message,
+    issues:
+      body.code === "validationFailed"
+        ? (body as ValidationErrorBody).details
+        : [],
+  };
+}
+
+/**
+ * Shows a 400 response on a form: its issues go onto the matching fields, and
+ * a response without issues is shown as a toast with the given title.
+ */
+export async function applyApiError<T extends FieldValues>(
+  response: Response,
+  form: UseFormReturn<T>,
+  title: string,
+) {
+  const { issues, message } = await readValidationError(response);
+  issues.forEach(({ path, message }) =>
+    form.setError(path as Path<T>, { type: "server", message }),
+  );
+
+  if (!issues.length) {
+    toast({ variant: "destructive", title, description: message });
+  }
+}
+
+/**
+ * Builds a query string from the given params, leaving out empty values.
+ * @param params
+ * @returns
+ */
+export function toQueryString(params: Record<string, string | undefined>) {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    value && search.set(key, value);
+  });
+  return search.toString();
+}
+
+/**
+ * Formats a date in the local time of a port, followed by the UTC offset so
+ * times in different zones can be compared.
+ * @param date
+ * @param timeZone IANA timezone of the port
+ * @returns
+ */
+export function formatPortTime(date: Date | string, timeZone: string) {
+  return formatInTimeZone(date, timeZone, `${TABLE_DATE_FORMAT} 'UTC'xxx`);
+}
+
+/**
+ * Formats the time between departure and arrival, e.g. "18h 30m". It is
+ * computed from the actual points in time, so it stays right when the ports
+ * are in different zones or a DST change falls in between.
+ * @param departure
+ * @param arrival
+ * @returns
+ */
+export function formatTransitTime(
+  departure: Date | string,
+  arrival: Date | string,
+) {
+  const minutes = differenceInMinutes(new Date(arrival), new Date(departure));
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export type Punctuality = "early" | "onTime" | "delayed";
+
+/**
+ * Minutes between the scheduled time and the actual time, or the estimated
+ * time while there is no actual one. Negative when early, null when neither
+ * has been reported.
+ * @param scheduled
+ * @param actual
+ * @param estimated
+ * @returns
+ */
+export function getDelayMinutes(
+  scheduled: Date | string,
+  actual: Date | string | null,
+  estimated: Date | string | null,
+) {
+  const reported = actual ?? estimated;
+  return reported === null
+    ? null
+    : differenceInMinutes(new Date(reported), new Date(scheduled));
+}
+
+/**
+ * Classifies a delay, allowing `ON_TIME_TOLERANCE_MINUTES` either way.
+ * @param delayMinutes
+ * @returns
+ */
+export function getPunctuality(delayMinutes: number): Punctuality {
+  if (delayMinutes > ON_TIME_TOLERANCE_MINUTES) return "delayed";
+  if (delayMinutes < -ON_TIME_TOLERANCE_MINUTES) return "early";
+  return "onTime";
+}